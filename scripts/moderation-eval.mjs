@@ -0,0 +1,34 @@
+// Entry point for `npm run eval:moderation`. The harness is TypeScript that
+// shares code with the app and server, so it's loaded through Vite's SSR
+// module loader rather than a separate build step.
+//
+//   npm run eval:moderation                      replay recorded responses (offline)
+//   npm run eval:moderation -- --live            call the model with ANTHROPIC_API_KEY
+//   npm run eval:moderation -- --live --record   ...and save the responses as recordings
+//   npm run eval:moderation -- --save-baseline   make this run the baseline
+
+import { createServer, loadEnv } from 'vite';
+
+const args = new Set(process.argv.slice(2));
+const env = loadEnv('development', process.cwd(), '');
+
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  // Only Node modules are loaded, so skip scanning the app for browser dependencies
+  optimizeDeps: { noDiscovery: true, entries: [] },
+  logLevel: 'warn',
+});
+
+try {
+  const { runModerationEval } = await vite.ssrLoadModule('/scripts/moderation-eval.ts');
+  process.exitCode = await runModerationEval({
+    live: args.has('--live'),
+    record: args.has('--record'),
+    saveBaseline: args.has('--save-baseline'),
+    apiKey: env.ANTHROPIC_API_KEY,
+    model: env.ANTHROPIC_MODEL || undefined,
+  });
+} finally {
+  await vite.close();
+}
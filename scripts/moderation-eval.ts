@@ -0,0 +1,349 @@
+// Moderation evaluation harness. Runs every labelled fixture through the same
+// pipeline as the upload modal: a ModerationProvider (the proxy, or recorded
+// responses replayed in its place), the contact-info merge and the verdict
+// policy. Reports verdict accuracy, precision/recall per flagged category,
+// treatment-mapping accuracy and any regressions against the saved baseline.
+// Loaded by moderation-eval.mjs.
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { DEFAULT_CLAUDE_MODEL } from '../server/claude-moderation';
+import { MODERATION_PROMPT_VERSION } from '../server/moderation-prompt';
+import { createModerationHandler } from '../server/moderation-proxy';
+import { detectContactInfo, mergeContactInfo } from '../src/app/lib/moderation/contact-info';
+import { deriveVerdict, verdictThresholdsFromEnv, type ModerationVerdict } from '../src/app/lib/moderation/policy';
+import { createProxyProvider } from '../src/app/lib/moderation/proxy-provider';
+import {
+  FLAGGED_CATEGORIES,
+  type ContactInfoDetection,
+  type FlaggedCategory,
+  type ModerationAnalysis,
+  type ModerationFrame,
+  type ModerationProvider,
+  type ModerationRequest,
+} from '../src/app/lib/moderation/types';
+import { createTreatmentCatalogue, parseTreatmentCsv } from '../src/app/lib/treatments/catalogue';
+import { rankTreatments } from '../src/app/lib/treatments/matcher';
+
+// Paths are relative to the repo root, where `npm run` starts scripts
+const EVALS_DIR = path.resolve('evals');
+const FIXTURES_DIR = path.join(EVALS_DIR, 'fixtures/moderation');
+const RECORDED_DIR = path.join(FIXTURES_DIR, 'recorded');
+const BASELINE_PATH = path.join(EVALS_DIR, 'baseline.json');
+const MATCHER_CASES_PATH = path.join(EVALS_DIR, 'fixtures/treatment-matching.json');
+const CATALOGUE_PATH = path.resolve('src/app/lib/treatments/treatments.csv');
+
+const IMAGE_MEDIA_TYPES: Record<string, ModerationFrame['mediaType']> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+export interface ModerationFixture {
+  id: string;
+  /** Image under evals/fixtures/moderation/media, needed for --live. */
+  file?: string;
+  description?: string;
+  /**
+   * Lines of text visible in the image. OCR can't run here, so the contact-info
+   * detectors are run over these instead.
+   */
+  text?: string[];
+  expected: {
+    verdict: ModerationVerdict;
+    flags: FlaggedCategory[];
+    /** Catalogue id the result should map to; null when no treatment should match. */
+    treatmentId: number | null;
+  };
+}
+
+interface FixtureOutcome {
+  verdict: boolean;
+  flags: boolean;
+  treatment: boolean;
+}
+
+// null where nothing was there to measure, e.g. recall for a category no fixture expects
+type Rate = number | null;
+
+interface Metrics {
+  fixtures: number;
+  verdictAccuracy: Rate;
+  treatmentAccuracy: Rate;
+  matcherAccuracy: Rate;
+  categories: Record<FlaggedCategory, { precision: Rate; recall: Rate; support: number }>;
+}
+
+interface Baseline {
+  model: string;
+  promptVersion: string;
+  createdAt: string;
+  /** True when any response behind it was a hand-written recording, not model output. */
+  synthetic?: boolean;
+  metrics: Metrics;
+  outcomes: Record<string, FixtureOutcome>;
+}
+
+export interface EvalOptions {
+  /** Call the model instead of replaying recorded responses. */
+  live: boolean;
+  /** With live: save each response as the fixture's new recording. */
+  record: boolean;
+  /** Overwrite the baseline with this run. */
+  saveBaseline: boolean;
+  apiKey?: string;
+  model?: string;
+}
+
+// Metrics may drop by this much before it counts as a regression
+const TOLERANCE = 0.005;
+
+const ratio = (numerator: number, denominator: number): Rate => (denominator === 0 ? null : numerator / denominator);
+const pct = (value: Rate) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+async function readJson<T>(file: string): Promise<T> {
+  return JSON.parse(await readFile(file, 'utf8')) as T;
+}
+
+// Fixture each file was made for, so the replaying provider can find its recording
+const fixtureIds = new WeakMap<File, string>();
+
+/** Stands in for the proxy offline, answering with recorded/<fixture id>.json. */
+function createRecordedProvider(): ModerationProvider {
+  return {
+    name: 'recorded',
+    async analyze(file: File): Promise<ModerationAnalysis> {
+      const recording = path.join(RECORDED_DIR, `${fixtureIds.get(file)}.json`);
+      if (!existsSync(recording)) throw new Error('No recorded response. Run with --live --record.');
+      return readJson<ModerationAnalysis>(recording);
+    },
+    async getVersion() {
+      return { model: 'recorded', promptVersion: MODERATION_PROMPT_VERSION };
+    },
+  };
+}
+
+/** Serves the moderation proxy on a free local port, as the Vite server does for the app. */
+async function startProxy(apiKey: string, model: string): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer(createModerationHandler({ apiKey, model, rateLimitMax: Infinity }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// The browser encodes frames through a canvas; fixture images are sent as they are
+async function loadFixture(fixture: ModerationFixture, live: boolean): Promise<{ file: File; request?: ModerationRequest }> {
+  if (!live) {
+    const file = new File([], fixture.file ?? fixture.id);
+    fixtureIds.set(file, fixture.id);
+    return { file };
+  }
+
+  if (!fixture.file) throw new Error('No media file to send.');
+  const mediaType = IMAGE_MEDIA_TYPES[path.extname(fixture.file).toLowerCase()];
+  if (!mediaType) throw new Error('Only JPG, PNG and WebP images can be run live.');
+  const bytes = await readFile(path.join(FIXTURES_DIR, 'media', fixture.file));
+  const file = new File([bytes], fixture.file, { type: mediaType });
+  fixtureIds.set(file, fixture.id);
+  return { file, request: { kind: 'image', frames: [{ timestamp: 0, mediaType, data: bytes.toString('base64') }] } };
+}
+
+// What the OCR pass would find in the fixture's visible text. Boxes aren't scored, so they cover the image
+function detectTextContactInfo(fixture: ModerationFixture): ContactInfoDetection[] {
+  return (fixture.text ?? []).flatMap(line =>
+    detectContactInfo(line).map(match => ({
+      kind: match.kind,
+      text: match.text,
+      timestamp: 0,
+      box: { x: 0, y: 0, width: 1, height: 1 },
+    }))
+  );
+}
+
+async function analyzeFixture(
+  fixture: ModerationFixture,
+  provider: ModerationProvider,
+  options: EvalOptions
+): Promise<ModerationAnalysis> {
+  const { file, request } = await loadFixture(fixture, options.live);
+  const analysis = await provider.analyze(file, { request });
+  // Recordings hold the provider's response, so the merge and policy are re-run on replay
+  if (options.live && options.record) {
+    await mkdir(RECORDED_DIR, { recursive: true });
+    await writeFile(path.join(RECORDED_DIR, `${fixture.id}.json`), `${JSON.stringify(analysis, null, 2)}\n`);
+  }
+  return mergeContactInfo(analysis, detectTextContactInfo(fixture));
+}
+
+function compareToBaseline(baseline: Baseline, metrics: Metrics, outcomes: Record<string, FixtureOutcome>): string[] {
+  const regressions: string[] = [];
+  for (const [id, previous] of Object.entries(baseline.outcomes)) {
+    const current = outcomes[id];
+    if (!current) continue;
+    for (const check of ['verdict', 'flags', 'treatment'] as const) {
+      if (previous[check] && !current[check]) regressions.push(`${id}: ${check} was correct, now wrong`);
+    }
+  }
+
+  const dropped = (label: string, before: Rate, after: Rate) => {
+    if (before === null || after === null) return;
+    if (after < before - TOLERANCE) regressions.push(`${label} fell from ${pct(before)} to ${pct(after)}`);
+  };
+  dropped('Verdict accuracy', baseline.metrics.verdictAccuracy, metrics.verdictAccuracy);
+  dropped('Treatment accuracy', baseline.metrics.treatmentAccuracy, metrics.treatmentAccuracy);
+  dropped('Matcher accuracy', baseline.metrics.matcherAccuracy, metrics.matcherAccuracy);
+  for (const category of FLAGGED_CATEGORIES) {
+    const before = baseline.metrics.categories[category];
+    const after = metrics.categories[category];
+    if (!before) continue;
+    dropped(`${category} precision`, before.precision, after.precision);
+    dropped(`${category} recall`, before.recall, after.recall);
+  }
+  return regressions;
+}
+
+/** Runs the evaluation and prints a report. Resolves to the process exit code. */
+export async function runModerationEval(options: EvalOptions): Promise<number> {
+  const fixtures = await readJson<ModerationFixture[]>(path.join(FIXTURES_DIR, 'fixtures.json'));
+  const catalogue = createTreatmentCatalogue(parseTreatmentCsv(await readFile(CATALOGUE_PATH, 'utf8')));
+  const model = options.live ? (options.model ?? DEFAULT_CLAUDE_MODEL) : 'recorded';
+  const thresholds = verdictThresholdsFromEnv();
+
+  if (options.live && !options.apiKey) throw new Error('Set ANTHROPIC_API_KEY to run live.');
+  const proxy = options.live ? await startProxy(options.apiKey!, model) : null;
+  const provider = proxy ? createProxyProvider(proxy.url) : createRecordedProvider();
+
+  const counts = Object.fromEntries(FLAGGED_CATEGORIES.map(c => [c, { tp: 0, fp: 0, fn: 0 }])) as Record<
+    FlaggedCategory,
+    { tp: number; fp: number; fn: number }
+  >;
+  const outcomes: Record<string, FixtureOutcome> = {};
+  const failures: string[] = [];
+  let synthetic = 0;
+
+  for (const fixture of fixtures) {
+    let analysis: ModerationAnalysis;
+    try {
+      analysis = await analyzeFixture(fixture, provider, options);
+    } catch (err) {
+      failures.push(`${fixture.id}: ${(err as Error).message}`);
+      outcomes[fixture.id] = { verdict: false, flags: false, treatment: false };
+      continue;
+    }
+    if (analysis.model === 'synthetic') synthetic++;
+
+    const flagged = FLAGGED_CATEGORIES.filter(category => analysis.flaggedCategories[category]);
+    for (const category of FLAGGED_CATEGORIES) {
+      const predicted = flagged.includes(category);
+      const expected = fixture.expected.flags.includes(category);
+      if (predicted && expected) counts[category].tp++;
+      else if (predicted) counts[category].fp++;
+      else if (expected) counts[category].fn++;
+    }
+
+    const [match] = rankTreatments(catalogue, analysis);
+    outcomes[fixture.id] = {
+      verdict: deriveVerdict(analysis, thresholds).verdict === fixture.expected.verdict,
+      flags: flagged.length === fixture.expected.flags.length && flagged.every(c => fixture.expected.flags.includes(c)),
+      treatment: (match?.treatment.id ?? null) === fixture.expected.treatmentId,
+    };
+  }
+  await proxy?.close();
+
+  const matcherCases = await readJson<{ contentType: string[]; tags: string[]; expected: number | null }[]>(
+    MATCHER_CASES_PATH
+  );
+  const matcherCorrect = matcherCases.filter(
+    c => (rankTreatments(catalogue, c)[0]?.treatment.id ?? null) === c.expected
+  ).length;
+
+  const results = Object.values(outcomes);
+  const metrics: Metrics = {
+    fixtures: fixtures.length,
+    verdictAccuracy: ratio(results.filter(r => r.verdict).length, results.length),
+    treatmentAccuracy: ratio(results.filter(r => r.treatment).length, results.length),
+    matcherAccuracy: ratio(matcherCorrect, matcherCases.length),
+    categories: Object.fromEntries(
+      FLAGGED_CATEGORIES.map(category => {
+        const { tp, fp, fn } = counts[category];
+        return [category, { precision: ratio(tp, tp + fp), recall: ratio(tp, tp + fn), support: tp + fn }];
+      })
+    ) as Metrics['categories'],
+  };
+
+  const source = options.live
+    ? `live (${model})`
+    : `recorded responses${synthetic > 0 ? `, ${synthetic} of them hand-written` : ''}`;
+  console.log(`\nModeration eval: ${fixtures.length} fixtures, ${source}, prompt ${MODERATION_PROMPT_VERSION}\n`);
+  if (synthetic > 0) {
+    console.log('Hand-written recordings stand in for model output, so these numbers do not measure the model.');
+    console.log('Record real responses with --live --record.\n');
+  }
+  console.log(`Verdict accuracy     ${pct(metrics.verdictAccuracy)}`);
+  console.log(`Treatment accuracy   ${pct(metrics.treatmentAccuracy)}`);
+  console.log(`Matcher cases        ${pct(metrics.matcherAccuracy)} of ${matcherCases.length}\n`);
+  console.log('Category            Precision   Recall   Support');
+  for (const category of FLAGGED_CATEGORIES) {
+    const { precision, recall, support } = metrics.categories[category];
+    console.log(`${category.padEnd(20)}${pct(precision).padStart(9)}${pct(recall).padStart(9)}${String(support).padStart(10)}`);
+  }
+
+  const wrong = Object.entries(outcomes).filter(([, o]) => !o.verdict || !o.flags || !o.treatment);
+  if (wrong.length > 0) {
+    console.log('\nIncorrect fixtures:');
+    for (const [id, o] of wrong) {
+      const checks = (['verdict', 'flags', 'treatment'] as const).filter(check => !o[check]);
+      console.log(`  ${id}: ${checks.join(', ')}`);
+    }
+  }
+  if (failures.length > 0) {
+    console.log('\nFailed to run:');
+    failures.forEach(failure => console.log(`  ${failure}`));
+  }
+
+  let exitCode = failures.length > 0 ? 1 : 0;
+  if (existsSync(BASELINE_PATH)) {
+    const baseline = await readJson<Baseline>(BASELINE_PATH);
+    const regressions = compareToBaseline(baseline, metrics, outcomes);
+    // Hand-written responses say nothing about the model, so changes against them can't fail the run
+    const authoritative = !baseline.synthetic && synthetic === 0;
+    console.log(`\nAgainst baseline (${baseline.model}, prompt ${baseline.promptVersion}, ${baseline.createdAt}):`);
+    if (!authoritative) console.log('  Not authoritative: the baseline or this run uses hand-written recordings');
+    if (regressions.length === 0) {
+      console.log('  No regressions');
+    } else {
+      regressions.forEach(regression => console.log(`  ${authoritative ? 'REGRESSION' : 'Change'} ${regression}`));
+      if (authoritative) exitCode = 1;
+    }
+  } else {
+    console.log(
+      synthetic > 0
+        ? '\nNo baseline yet. Once the recordings come from the model, run with --save-baseline to create one.'
+        : '\nNo baseline yet. Run with --save-baseline to create one.'
+    );
+  }
+
+  if (options.saveBaseline && synthetic > 0) {
+    console.log(`\nNot saving a baseline: ${synthetic} of the responses are hand-written.`);
+    console.log('Record real ones with --live --record first.');
+    exitCode = 1;
+  } else if (options.saveBaseline) {
+    const baseline: Baseline = {
+      model,
+      promptVersion: MODERATION_PROMPT_VERSION,
+      createdAt: new Date().toISOString(),
+      metrics,
+      outcomes,
+    };
+    await writeFile(BASELINE_PATH, `${JSON.stringify(baseline, null, 2)}\n`);
+    console.log(`\nSaved baseline to ${path.relative(process.cwd(), BASELINE_PATH)}`);
+  }
+  return exitCode;
+}
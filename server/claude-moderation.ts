@@ -0,0 +1,148 @@
+// Server-side Claude call used by the moderation proxy. The API key only
+// ever lives in the Node process; browsers send frames to the proxy instead.
+
+import type { ModerationAnalysis, ModerationFrame, ModerationRequest } from '../src/app/lib/moderation/types';
+import { MODERATION_POLICY } from '../src/app/lib/moderation/policy-config';
+import { validateModerationResponse, type ModelModerationResponse } from './moderation-schema';
+import { buildModerationPrompt, MODERATION_PROMPT_VERSION } from './moderation-prompt';
+
+export interface ClaudeConfig {
+  apiKey: string;
+  model: string;
+}
+
+export const DEFAULT_CLAUDE_MODEL = 'claude-sonnet-4-20250514';
+
+/** The Messages API answered with an error status, or couldn't be reached at all. */
+export class ClaudeApiError extends Error {
+  constructor(
+    /** Upstream HTTP status; 503 when the connection itself failed. */
+    readonly status: number,
+    message: string,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ClaudeApiError';
+  }
+}
+
+/** The model's reply still didn't match the schema after the repair attempt. */
+export class ModerationResponseError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Moderation response was malformed after a repair attempt: ${errors.join(' ')}`);
+    this.name = 'ModerationResponseError';
+  }
+}
+
+export async function analyzeMediaWithClaude(
+  request: ModerationRequest,
+  { apiKey, model }: ClaudeConfig
+): Promise<ModerationAnalysis> {
+  const isVideo = request.kind === 'video';
+  const { frames } = request;
+
+  const systemPrompt = buildModerationPrompt(MODERATION_POLICY, { isVideo });
+
+  const userMessage = {
+    role: 'user',
+    content: [
+      ...frames.flatMap((frame, index) => [
+        ...(isVideo
+          ? [{ type: 'text', text: `Frame ${index + 1} (at ${frame.timestamp.toFixed(1)}s):` }]
+          : []),
+        {
+          type: 'image',
+          source: { type: 'base64', media_type: frame.mediaType, data: frame.data },
+        },
+      ]),
+      {
+        type: 'text',
+        text: isVideo
+          ? `These are ${frames.length} frames sampled evenly across a video upload. Please moderate the video.`
+          : 'Please moderate this image upload.',
+      },
+    ],
+  };
+
+  const frameCount = isVideo ? frames.length : undefined;
+  const raw = await callClaude({ apiKey, model }, systemPrompt, [userMessage]);
+  let result = validateModerationResponse(raw, frameCount);
+
+  // One repair attempt: show the model its own output and what was wrong with it
+  if (!result.ok) {
+    const repaired = await callClaude({ apiKey, model }, systemPrompt, [
+      userMessage,
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content:
+          `Your response did not match the required JSON format:\n- ${result.errors.join('\n- ')}\n\n` +
+          'Reply again with ONLY the corrected JSON object, following the schema exactly.',
+      },
+    ]);
+    result = validateModerationResponse(repaired, frameCount);
+  }
+
+  // Still malformed: fail closed so the upload ends up as an error, never approved
+  if (!result.ok) {
+    throw new ModerationResponseError(result.errors);
+  }
+
+  const parsed = result.value;
+  return {
+    contentType: [parsed.contentType],
+    tags: parsed.tags,
+    moderationStatus: parsed.moderationStatus,
+    moderationReasons: parsed.moderationReasons,
+    confidence: parsed.confidence,
+    flaggedCategories: parsed.flaggedCategories,
+    frameFlags: isVideo ? mapFrameFlags(parsed.flaggedFrames ?? [], frames) : undefined,
+    model,
+    promptVersion: MODERATION_PROMPT_VERSION,
+    policyVersion: MODERATION_POLICY.version,
+  };
+}
+
+async function callClaude({ apiKey, model }: ClaudeConfig, system: string, messages: unknown[]): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({ model, max_tokens: 1000, system, messages }),
+    });
+  } catch (err) {
+    throw new ClaudeApiError(503, `Moderation API could not be reached: ${(err as Error).message}`);
+  }
+
+  if (!response.ok) {
+    const err = await response.text();
+    const retryAfter = Number(response.headers.get('retry-after'));
+    const retryAfterSeconds = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined;
+    if (response.status === 404) {
+      throw new ClaudeApiError(
+        404,
+        `Moderation API error (404): model "${model}" not found for this API key. ` +
+        `Double-check ANTHROPIC_MODEL against the /v1/models list. Raw: ${err}`
+      );
+    }
+    throw new ClaudeApiError(response.status, `Moderation API error (${response.status}): ${err}`, retryAfterSeconds);
+  }
+
+  const data = await response.json();
+  return data.content.map((b: { text?: string }) => b.text ?? '').join('');
+}
+
+// Turn the model's 1-based frame numbers back into timestamps within the clip
+function mapFrameFlags(
+  flaggedFrames: NonNullable<ModelModerationResponse['flaggedFrames']>,
+  frames: ModerationFrame[]
+): ModerationAnalysis['frameFlags'] {
+  return flaggedFrames
+    .filter(entry => entry.categories.length > 0)
+    .map(entry => ({ timestamp: frames[entry.frame - 1].timestamp, categories: entry.categories }));
+}
@@ -0,0 +1,58 @@
+// Builds the moderation system prompt from the policy config, so the prompt
+// can't drift from what the app enforces and shows partners.
+
+import { FLAGGED_CATEGORIES } from '../src/app/lib/moderation/types';
+import { MODERATION_POLICY, type ModerationPolicyConfig } from '../src/app/lib/moderation/policy-config';
+
+// Bump when the prompt wording or response schema changes. Policy changes are
+// covered by the policy version, which is part of MODERATION_PROMPT_VERSION.
+const PROMPT_TEMPLATE_VERSION = '4';
+
+/** Browsers only reuse cached results produced by the same model and prompt version. */
+export const MODERATION_PROMPT_VERSION = `${PROMPT_TEMPLATE_VERSION}+policy.${MODERATION_POLICY.version}`;
+
+export function buildModerationPrompt(policy: ModerationPolicyConfig, { isVideo }: { isVideo: boolean }): string {
+  const checks = FLAGGED_CATEGORIES.map(
+    (category, index) => `${index + 1}. ${category}: ${policy.bannedCategories[category].description}`
+  ).join('\n');
+  const allowed = policy.allowedCategories
+    .map(({ label, examples }) => `- ${label} (e.g. ${examples.join(', ')})`)
+    .join('\n');
+  const reasons = FLAGGED_CATEGORIES.map(
+    category => `- ${category}: "${policy.bannedCategories[category].reason}"`
+  ).join('\n');
+  const flags = FLAGGED_CATEGORIES.map(category => `    "${category}": false`).join(',\n');
+
+  const prompt = `You are a professional content moderation AI for ${policy.marketplace}.
+Analyse the image and return a structured JSON response.
+
+Check for:
+${checks}
+
+The platform only allows content from these treatment categories:
+${allowed}
+Anything that shows none of them is offTopicContent.
+
+Respond ONLY with a valid JSON object — no markdown, no code fences, no extra text:
+{
+  "moderationStatus": "safe",
+  "moderationReasons": [],
+  "contentType": "e.g. Hair Colouring",
+  "tags": ["tag1", "tag2", "tag3"],
+  "confidence": 0.95,
+  "flaggedCategories": {
+${flags}
+  }
+}
+
+Set moderationStatus to "unsafe" if any category is flagged, and add one entry to moderationReasons per flagged
+category. Base each one on the matching reason below, adding specifics about what you saw where it helps the partner fix the upload:
+${reasons}`;
+
+  if (!isVideo) return prompt;
+  return `${prompt}
+
+The images are numbered frames sampled across a video. Moderate the video as a whole, and also include
+"flaggedFrames": [{ "frame": 1, "categories": ["nudity"] }]
+listing every frame number that shows a flagged category (use the category keys above). Use [] if nothing is flagged.`;
+}
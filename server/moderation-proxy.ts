@@ -0,0 +1,218 @@
+// Moderation proxy: accepts frames from the browser, calls the model with the
+// server's API key and returns the normalised analysis. Exposed as a plain
+// Node (req, res) handler so it can run in the Vite dev/preview server or be
+// mounted in any standalone http server.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import type { ModerationFrame, ModerationRequest, ModerationVersion } from '../src/app/lib/moderation/types';
+import { analyzeMediaWithClaude, ClaudeApiError, DEFAULT_CLAUDE_MODEL, ModerationResponseError } from './claude-moderation';
+import { MODERATION_PROMPT_VERSION } from './moderation-prompt';
+
+export const MODERATION_PROXY_PATH = '/api/moderate';
+
+export interface ModerationProxyOptions {
+  apiKey?: string;
+  model?: string;
+  /** Largest accepted request body. Frames are base64, so this is ~1.33× the image bytes. */
+  maxBodyBytes?: number;
+  /** Most frames accepted in a single request. */
+  maxFrames?: number;
+  /** Requests allowed per client within each rate limit window. */
+  rateLimitMax?: number;
+  rateLimitWindowMs?: number;
+}
+
+class ProxyError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const FRAME_MEDIA_TYPES: ModerationFrame['mediaType'][] = ['image/jpeg', 'image/png', 'image/webp'];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+function parseModerationRequest(body: unknown, maxFrames: number): ModerationRequest {
+  if (typeof body !== 'object' || body === null) {
+    throw new ProxyError(400, 'Request body must be a JSON object.');
+  }
+  const { kind, frames } = body as Record<string, unknown>;
+
+  if (kind !== 'image' && kind !== 'video') {
+    throw new ProxyError(400, '"kind" must be "image" or "video".');
+  }
+  if (!Array.isArray(frames) || frames.length === 0) {
+    throw new ProxyError(400, '"frames" must be a non-empty array.');
+  }
+  if (frames.length > maxFrames || (kind === 'image' && frames.length !== 1)) {
+    throw new ProxyError(400, `Too many frames: images take 1, videos at most ${maxFrames}.`);
+  }
+
+  return {
+    kind,
+    frames: frames.map((frame, index) => {
+      const { timestamp, mediaType, data } = (frame ?? {}) as Record<string, unknown>;
+      if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || timestamp < 0) {
+        throw new ProxyError(400, `frames[${index}].timestamp must be a non-negative number.`);
+      }
+      if (!FRAME_MEDIA_TYPES.includes(mediaType as ModerationFrame['mediaType'])) {
+        throw new ProxyError(400, `frames[${index}].mediaType must be image/jpeg, image/png or image/webp.`);
+      }
+      if (typeof data !== 'string' || !BASE64_PATTERN.test(data)) {
+        throw new ProxyError(400, `frames[${index}].data must be base64 without a data: prefix.`);
+      }
+      return { timestamp, mediaType: mediaType as ModerationFrame['mediaType'], data };
+    }),
+  };
+}
+
+async function readJsonBody(req: IncomingMessage, maxBodyBytes: number): Promise<unknown> {
+  const declared = Number(req.headers['content-length']);
+  if (Number.isFinite(declared) && declared > maxBodyBytes) {
+    throw new ProxyError(413, `Request body is larger than ${maxBodyBytes} bytes.`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > maxBodyBytes) {
+      throw new ProxyError(413, `Request body is larger than ${maxBodyBytes} bytes.`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ProxyError(400, 'Request body is not valid JSON.');
+  }
+}
+
+// Fixed-window limiter keyed by client address. In-memory, so limits are per process.
+function createRateLimiter(max: number, windowMs: number) {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = Date.now();
+
+  return (key: string): { allowed: boolean; retryAfterSeconds: number } => {
+    const now = Date.now();
+    // Drop expired windows once per window length, so clients that stop calling don't stay in memory
+    if (now - lastSweep >= windowMs) {
+      windows.forEach((window, client) => {
+        if (now - window.start >= windowMs) windows.delete(client);
+      });
+      lastSweep = now;
+    }
+    const current = windows.get(key);
+    if (!current || now - current.start >= windowMs) {
+      windows.set(key, { start: now, count: 1 });
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+    current.count += 1;
+    return {
+      allowed: current.count <= max,
+      retryAfterSeconds: Math.ceil((current.start + windowMs - now) / 1000),
+    };
+  };
+}
+
+// What the browser is told when a request fails. Only our own validation messages are
+// passed on; upstream errors can quote the vendor's raw response, so they get a generic
+// message and the details go to the server log. Statuses tell the client what is worth
+// retrying: 502/503/504 only for upstream outages, 422 when the model's output was unusable.
+// Of the vendor's 4xx only 413 and 429 are passed on; the rest (a bad API key or model name,
+// a request it refused) are the server's problem, not the browser's, so they become 500.
+function errorResponse(err: unknown): { status: number; message: string; retryAfterSeconds?: number } {
+  if (err instanceof ProxyError) return { status: err.status, message: err.message };
+  if (err instanceof ModerationResponseError) {
+    return { status: 422, message: 'The moderation model returned an invalid response.' };
+  }
+  if (err instanceof ClaudeApiError) {
+    const { status, retryAfterSeconds } = err;
+    if (status === 429) {
+      return { status, message: 'The moderation service is busy. Please try again shortly.', retryAfterSeconds };
+    }
+    if (status === 413) return { status, message: 'This upload is too large for the moderation service.' };
+    if (status === 401 || status === 403 || status === 404) {
+      return { status: 500, message: 'Moderation is not configured correctly on the server.' };
+    }
+    if (status < 500) return { status: 500, message: 'The moderation service rejected this request.' };
+    // 529 is Anthropic's "overloaded"
+    return {
+      status: status === 503 || status === 529 ? 503 : status === 504 ? 504 : 502,
+      message: 'The moderation service is temporarily unavailable.',
+      retryAfterSeconds,
+    };
+  }
+  return { status: 500, message: 'Moderation failed unexpectedly.' };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+export function createModerationHandler({
+  apiKey,
+  model = DEFAULT_CLAUDE_MODEL,
+  maxBodyBytes = 15 * 1024 * 1024,
+  maxFrames = 12,
+  rateLimitMax = 30,
+  rateLimitWindowMs = 60_000,
+}: ModerationProxyOptions) {
+  const checkRateLimit = createRateLimiter(rateLimitMax, rateLimitWindowMs);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      // GET reports what new results would come from, for client-side cache invalidation
+      if (req.method === 'GET') {
+        sendJson(res, 200, { model, promptVersion: MODERATION_PROMPT_VERSION } satisfies ModerationVersion);
+        return;
+      }
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'GET, POST');
+        throw new ProxyError(405, 'Use POST.');
+      }
+      if (!req.headers['content-type']?.startsWith('application/json')) {
+        throw new ProxyError(415, 'Content-Type must be application/json.');
+      }
+
+      const limit = checkRateLimit(req.socket.remoteAddress ?? 'unknown');
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+        throw new ProxyError(429, 'Too many moderation requests. Please wait a moment and try again.');
+      }
+
+      if (!apiKey) {
+        throw new ProxyError(500, 'Moderation proxy is not configured: set ANTHROPIC_API_KEY on the server.');
+      }
+
+      const request = parseModerationRequest(await readJsonBody(req, maxBodyBytes), maxFrames);
+      const analysis = await analyzeMediaWithClaude(request, { apiKey, model });
+      sendJson(res, 200, analysis);
+    } catch (err) {
+      if (!(err instanceof ProxyError)) console.error('Moderation proxy request failed:', err);
+      const { status, message, retryAfterSeconds } = errorResponse(err);
+      if (retryAfterSeconds) res.setHeader('Retry-After', String(retryAfterSeconds));
+      sendJson(res, status, { error: message });
+    }
+  };
+}
+
+/** Serves the moderation proxy from both `vite` (dev) and `vite preview`. */
+export function moderationProxyPlugin(options: ModerationProxyOptions): Plugin {
+  const handler = createModerationHandler(options);
+  return {
+    name: 'treatwell-moderation-proxy',
+    configureServer(server) {
+      server.middlewares.use(MODERATION_PROXY_PATH, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(MODERATION_PROXY_PATH, handler);
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { validateModerationResponse } from './moderation-schema';
+
+const clean = {
+  moderationStatus: 'safe',
+  moderationReasons: [],
+  contentType: 'Balayage',
+  tags: ['balayage', 'salon'],
+  confidence: 0.92,
+  flaggedCategories: {
+    nudity: false,
+    profanity: false,
+    violence: false,
+    illegalItems: false,
+    contactInfo: false,
+    offTopicContent: false,
+  },
+};
+
+const video = { ...clean, flaggedFrames: [{ frame: 2, categories: ['violence'] }] };
+
+const validate = (body: unknown, frameCount?: number) => validateModerationResponse(JSON.stringify(body), frameCount);
+
+describe('validateModerationResponse', () => {
+  it('passes a valid image response through unchanged', () => {
+    expect(validate(clean)).toEqual({ ok: true, value: clean });
+  });
+
+  it('passes a valid video response through unchanged', () => {
+    expect(validate(video, 8)).toEqual({ ok: true, value: video });
+  });
+
+  it('accepts a response wrapped in a json code fence', () => {
+    expect(validateModerationResponse(`\`\`\`json\n${JSON.stringify(clean)}\n\`\`\``)).toEqual({ ok: true, value: clean });
+  });
+
+  it('rejects JSON with prose around it', () => {
+    expect(validateModerationResponse(`Here is my analysis:\n${JSON.stringify(clean)}`).ok).toBe(false);
+    expect(validateModerationResponse(`\`\`\`json\n${JSON.stringify(clean)}\n\`\`\`\nLet me know if you need more.`)).toEqual({
+      ok: false,
+      errors: ['Response is not valid JSON.'],
+    });
+  });
+
+  it('rejects anything that is not a JSON object', () => {
+    expect(validateModerationResponse('[]')).toEqual({ ok: false, errors: ['Response must be a JSON object.'] });
+    expect(validateModerationResponse('null').ok).toBe(false);
+  });
+
+  it.each([-0.1, 1.01, '0.9', null])('rejects confidence %s', confidence => {
+    expect(validate({ ...clean, confidence })).toEqual({
+      ok: false,
+      errors: ['"confidence" must be a number between 0 and 1.'],
+    });
+  });
+
+  it('accepts confidence at both ends of the range', () => {
+    expect(validate({ ...clean, confidence: 0 }).ok).toBe(true);
+    expect(validate({ ...clean, confidence: 1 }).ok).toBe(true);
+  });
+
+  it('rejects flags that are not booleans', () => {
+    const result = validate({ ...clean, flaggedCategories: { ...clean.flaggedCategories, nudity: 'false', violence: 0 } });
+    expect(result).toEqual({
+      ok: false,
+      errors: ['"flaggedCategories.nudity" must be true or false.', '"flaggedCategories.violence" must be true or false.'],
+    });
+  });
+
+  it('rejects missing and unknown flag categories', () => {
+    const { contactInfo: _, ...flags } = clean.flaggedCategories;
+    expect(validate({ ...clean, flaggedCategories: { ...flags, alcohol: false } })).toEqual({
+      ok: false,
+      errors: ['"flaggedCategories.contactInfo" must be true or false.', '"flaggedCategories" has unknown keys: alcohol.'],
+    });
+  });
+
+  it('rejects missing top-level keys', () => {
+    const { moderationStatus: _, tags: __, ...rest } = clean;
+    expect(validate(rest)).toEqual({
+      ok: false,
+      errors: ['"moderationStatus" must be exactly "safe" or "unsafe".', '"tags" must be an array of strings.'],
+    });
+  });
+
+  it('rejects unknown top-level keys', () => {
+    expect(validate({ ...clean, approved: true })).toEqual({
+      ok: false,
+      errors: ['Response has unknown keys: approved.'],
+    });
+  });
+
+  it('rejects a status other than safe or unsafe', () => {
+    expect(validate({ ...clean, moderationStatus: 'Safe' }).ok).toBe(false);
+  });
+
+  it.each([0, 9, 1.5, '2'])('rejects frame number %s for an 8-frame video', frame => {
+    expect(validate({ ...video, flaggedFrames: [{ frame, categories: ['violence'] }] }, 8)).toEqual({
+      ok: false,
+      errors: ['"flaggedFrames[0].frame" must be a frame number from 1 to 8.'],
+    });
+  });
+
+  it('rejects unknown categories on a flagged frame', () => {
+    expect(validate({ ...video, flaggedFrames: [{ frame: 1, categories: ['gore'] }] }, 8).ok).toBe(false);
+  });
+
+  it('requires flaggedFrames for videos', () => {
+    expect(validate(clean, 8)).toEqual({ ok: false, errors: ['"flaggedFrames" must be an array for video uploads.'] });
+  });
+});
@@ -0,0 +1,108 @@
+// Runtime validation for the JSON the model returns. Anything that doesn't
+// match exactly is reported as errors rather than patched with defaults, so a
+// malformed response can never turn into an approval.
+
+import { FLAGGED_CATEGORIES, type FlaggedCategory } from '../src/app/lib/moderation/types';
+
+/** The JSON object the moderation prompt asks the model for. */
+export interface ModelModerationResponse {
+  moderationStatus: 'safe' | 'unsafe';
+  moderationReasons: string[];
+  contentType: string;
+  tags: string[];
+  confidence: number;
+  flaggedCategories: Record<FlaggedCategory, boolean>;
+  /** Video requests only. 1-based frame numbers. */
+  flaggedFrames?: { frame: number; categories: FlaggedCategory[] }[];
+}
+
+export type ValidationResult =
+  | { ok: true; value: ModelModerationResponse }
+  | { ok: false; errors: string[] };
+
+const RESPONSE_KEYS = [
+  'moderationStatus',
+  'moderationReasons',
+  'contentType',
+  'tags',
+  'confidence',
+  'flaggedCategories',
+  'flaggedFrames',
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Parses and validates raw model text. `frameCount` is the number of frames
+ * sent for a video, or undefined for an image.
+ */
+export function validateModerationResponse(raw: string, frameCount?: number): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.replace(/```json|```/g, '').trim());
+  } catch {
+    return { ok: false, errors: ['Response is not valid JSON.'] };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, errors: ['Response must be a JSON object.'] };
+  }
+
+  const body = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const unknownKeys = Object.keys(body).filter(key => !RESPONSE_KEYS.includes(key));
+  if (unknownKeys.length > 0) {
+    errors.push(`Response has unknown keys: ${unknownKeys.join(', ')}.`);
+  }
+
+  if (body.moderationStatus !== 'safe' && body.moderationStatus !== 'unsafe') {
+    errors.push('"moderationStatus" must be exactly "safe" or "unsafe".');
+  }
+  if (!isStringArray(body.moderationReasons)) {
+    errors.push('"moderationReasons" must be an array of strings.');
+  }
+  if (typeof body.contentType !== 'string' || body.contentType.trim() === '') {
+    errors.push('"contentType" must be a non-empty string.');
+  }
+  if (!isStringArray(body.tags)) {
+    errors.push('"tags" must be an array of strings.');
+  }
+  if (typeof body.confidence !== 'number' || !(body.confidence >= 0 && body.confidence <= 1)) {
+    errors.push('"confidence" must be a number between 0 and 1.');
+  }
+
+  const flags = body.flaggedCategories;
+  if (typeof flags !== 'object' || flags === null || Array.isArray(flags)) {
+    errors.push('"flaggedCategories" must be an object.');
+  } else {
+    for (const category of FLAGGED_CATEGORIES) {
+      if (typeof (flags as Record<string, unknown>)[category] !== 'boolean') {
+        errors.push(`"flaggedCategories.${category}" must be true or false.`);
+      }
+    }
+    const unknown = Object.keys(flags).filter(key => !FLAGGED_CATEGORIES.includes(key as FlaggedCategory));
+    if (unknown.length > 0) {
+      errors.push(`"flaggedCategories" has unknown keys: ${unknown.join(', ')}.`);
+    }
+  }
+
+  if (frameCount !== undefined) {
+    if (!Array.isArray(body.flaggedFrames)) {
+      errors.push('"flaggedFrames" must be an array for video uploads.');
+    } else {
+      body.flaggedFrames.forEach((entry, index) => {
+        const { frame, categories } = (entry ?? {}) as Record<string, unknown>;
+        if (typeof frame !== 'number' || !Number.isInteger(frame) || frame < 1 || frame > frameCount) {
+          errors.push(`"flaggedFrames[${index}].frame" must be a frame number from 1 to ${frameCount}.`);
+        }
+        if (!isStringArray(categories) || !categories.every(c => FLAGGED_CATEGORIES.includes(c as FlaggedCategory))) {
+          errors.push(`"flaggedFrames[${index}].categories" must only contain: ${FLAGGED_CATEGORIES.join(', ')}.`);
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: body as unknown as ModelModerationResponse };
+}
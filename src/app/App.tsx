@@ -1,9 +1,19 @@
+import { BrowserRouter, Routes, Route } from 'react-router';
 import { CampaignPage } from './components/campaign-page';
+import { ReviewQueuePage } from './components/review-queue-page';
+import { I18nProvider } from './lib/i18n/provider';
 
 export default function App() {
   return (
     <div className="size-full">
-      <CampaignPage />
+      <I18nProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<CampaignPage />} />
+            <Route path="/review" element={<ReviewQueuePage />} />
+          </Routes>
+        </BrowserRouter>
+      </I18nProvider>
     </div>
   );
-}
\ No newline at end of file
+}
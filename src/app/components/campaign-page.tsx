@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Mail, MessageSquare, Clipboard, Smartphone, Image, Search, Settings, Bell, ChevronDown } from 'lucide-react';
+import { Mail, MessageSquare, Clipboard, Smartphone, Image, Search, Settings, Bell, ChevronDown, type LucideIcon } from 'lucide-react';
 import { StoryUploadModal } from './story-upload-modal';
 import exampleImage from 'figma:asset/997401f2fbf2970ee04c7898891099db3c95b426.png';
 
@@ -127,7 +127,7 @@ export function CampaignPage() {
 }
 
 interface NavItemProps {
-  icon: React.ComponentType<{ size?: number; className?: string }>;
+  icon: LucideIcon;
   label: string;
   active?: boolean;
 }
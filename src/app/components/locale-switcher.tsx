@@ -0,0 +1,25 @@
+import { Globe } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LOCALES, isLocale } from '../lib/i18n';
+import { useI18n } from '../lib/i18n/provider';
+
+// Language picker for the partner UI; the choice is remembered on this device
+export function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={value => isLocale(value) && setLocale(value)}>
+      <SelectTrigger size="sm" className="w-auto" aria-label={t('locale.label')}>
+        <Globe size={14} />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map(({ locale: value, label }) => (
+          <SelectItem key={value} value={value} lang={value}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, useEffect, useRef } from 'react';
+import { Crop, Scissors, Loader2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { readMediaMetadata, MAX_VIDEO_DURATION_SECONDS, type MediaMetadata } from '../lib/media-validation';
+import {
+  maxCropRect,
+  cropImage,
+  cropAndTrimVideo,
+  MediaEditError,
+  type CropRect,
+  type TrimRange,
+} from '../lib/media-editing';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../lib/i18n/provider';
+
+interface MediaEditorProps {
+  file: File;
+  /** How many more files are waiting for the editor after this one. */
+  remaining: number;
+  onApply: (edited: File) => void;
+  onUseOriginal: () => void;
+  onDiscard: () => void;
+}
+
+// Smallest trimmed clip we allow, in seconds
+const MIN_TRIM_SECONDS = 1;
+// Bounds of the on-screen editing frame, in CSS pixels
+const FRAME_MAX_WIDTH = 640;
+const FRAME_MAX_HEIGHT = 420;
+
+export function MediaEditor({ file, remaining, onApply, onUseOriginal, onDiscard }: MediaEditorProps) {
+  const { t, formatNumber } = useI18n();
+  const isVideo = file.type.startsWith('video/');
+  const [url, setUrl] = useState('');
+  const [metadata, setMetadata] = useState<MediaMetadata | null>(null);
+  const [cropScale, setCropScale] = useState(1);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [trim, setTrim] = useState<TrimRange>({ start: 0, end: MAX_VIDEO_DURATION_SECONDS });
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<MessageKey | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setExportError(null);
+    setCropScale(1);
+    readMediaMetadata(file)
+      .then(meta => {
+        setMetadata(meta);
+        setCrop(maxCropRect(meta));
+        setTrim({ start: 0, end: Math.min(meta.duration ?? 0, MAX_VIDEO_DURATION_SECONDS) });
+      })
+      .catch(() => setExportError('editor.error.unreadable'));
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  // Keep the preview looping inside the trimmed range
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const onTimeUpdate = () => {
+      if (video.currentTime >= trim.end || video.currentTime < trim.start) video.currentTime = trim.start;
+    };
+    video.addEventListener('timeupdate', onTimeUpdate);
+    return () => video.removeEventListener('timeupdate', onTimeUpdate);
+  }, [trim, url]);
+
+  const clampCrop = (next: CropRect): CropRect => ({
+    ...next,
+    x: Math.min(Math.max(next.x, 0), 1 - next.width),
+    y: Math.min(Math.max(next.y, 0), 1 - next.height),
+  });
+
+  const handleScaleChange = (scale: number) => {
+    if (!metadata || !crop) return;
+    // Resize around the current centre of the crop box
+    const resized = maxCropRect(metadata, scale);
+    const centreX = crop.x + crop.width / 2;
+    const centreY = crop.y + crop.height / 2;
+    setCropScale(scale);
+    setCrop(clampCrop({ ...resized, x: centreX - resized.width / 2, y: centreY - resized.height / 2 }));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { pointerX: event.clientX, pointerY: event.clientY, crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!start || !frame) return;
+    setCrop(
+      clampCrop({
+        ...start.crop,
+        x: start.crop.x + (event.clientX - start.pointerX) / frame.width,
+        y: start.crop.y + (event.clientY - start.pointerY) / frame.height,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleCropKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    const step = event.shiftKey ? 0.05 : 0.01;
+    const deltas: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const delta = deltas[event.key];
+    if (!delta) return;
+    event.preventDefault();
+    setCrop(clampCrop({ ...crop, x: crop.x + delta[0], y: crop.y + delta[1] }));
+  };
+
+  const handleTrimChange = ([start, end]: number[]) => {
+    // Keep the clip between MIN_TRIM_SECONDS and the 10 second limit,
+    // moving whichever handle the partner isn't dragging
+    if (end - start > MAX_VIDEO_DURATION_SECONDS) {
+      if (start !== trim.start) end = start + MAX_VIDEO_DURATION_SECONDS;
+      else start = end - MAX_VIDEO_DURATION_SECONDS;
+    }
+    if (end - start < MIN_TRIM_SECONDS) return;
+    setTrim({ start, end });
+  };
+
+  const handleApply = async () => {
+    if (!crop) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const edited = isVideo ? await cropAndTrimVideo(file, crop, trim) : await cropImage(file, crop);
+      onApply(edited);
+    } catch (err) {
+      // The error's own message is English and for developers, so only its code is shown
+      setExportError(err instanceof MediaEditError ? `editor.error.${err.code}` : 'editor.error.failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const duration = metadata?.duration ?? 0;
+  const formatSeconds = (seconds: number) => formatNumber(seconds, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  const sourceRatio = metadata ? metadata.width / metadata.height : 9 / 16;
+  const frameWidth = Math.min(FRAME_MAX_WIDTH, FRAME_MAX_HEIGHT * sourceRatio);
+  const frameHeight = frameWidth / sourceRatio;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4">
+      <div className="bg-card border border-border rounded-[var(--radius-card)] p-8 max-w-3xl w-full shadow-2xl max-h-full overflow-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="mb-1" style={{ fontSize: '22px', fontWeight: 'var(--font-weight-medium)' }}>
+              {t(isVideo ? 'editor.titleVideo' : 'editor.titleImage')}
+            </h2>
+            <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+              {isVideo ? t('editor.introVideo', { max: MAX_VIDEO_DURATION_SECONDS }) : t('editor.introImage')}
+              {remaining > 0 && ` ${t('editor.remaining', { count: remaining })}`}
+            </p>
+          </div>
+          <button
+            onClick={onDiscard}
+            disabled={isExporting}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            aria-label={t('editor.discard')}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Crop area */}
+        <div className="bg-muted-foreground/10 rounded-[var(--radius)] flex items-center justify-center p-4 mb-6">
+          <div
+            ref={frameRef}
+            className="relative overflow-hidden select-none"
+            style={{ width: `${frameWidth}px`, height: `${frameHeight}px` }}
+          >
+            {url &&
+              (isVideo ? (
+                <video ref={videoRef} src={url} className="w-full h-full object-fill" autoPlay muted loop playsInline />
+              ) : (
+                <img src={url} alt={t('editor.imageAlt')} className="w-full h-full object-fill" draggable={false} />
+              ))}
+            {crop && (
+              <div
+                role="slider"
+                tabIndex={0}
+                aria-label={t('editor.cropPosition')}
+                aria-valuetext={t('editor.cropPositionValue', { x: Math.round(crop.x * 100), y: Math.round(crop.y * 100) })}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onKeyDown={handleCropKeyDown}
+                className="absolute border-2 border-white cursor-move outline-none focus-visible:border-primary"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  // Darken everything outside the crop box
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="space-y-5 mb-6">
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Crop size={14} className="text-muted-foreground" />
+              <div className="text-muted-foreground" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                {t('editor.cropSize')}
+              </div>
+            </div>
+            <Slider
+              min={0.4}
+              max={1}
+              step={0.01}
+              value={[cropScale]}
+              onValueChange={([value]) => handleScaleChange(value)}
+              disabled={!crop || isExporting}
+              aria-label={t('editor.cropSize')}
+            />
+          </div>
+
+          {isVideo && duration > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <Scissors size={14} className="text-muted-foreground" />
+                  <div className="text-muted-foreground" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                    {t('editor.trim')}
+                  </div>
+                </div>
+                <span style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}>
+                  {t('editor.trimRange', {
+                    start: formatSeconds(trim.start),
+                    end: formatSeconds(trim.end),
+                    length: formatSeconds(trim.end - trim.start),
+                  })}
+                </span>
+              </div>
+              <Slider
+                min={0}
+                max={duration}
+                step={0.1}
+                value={[trim.start, trim.end]}
+                onValueChange={handleTrimChange}
+                disabled={isExporting}
+                aria-label={t('editor.trimLabel')}
+              />
+            </div>
+          )}
+        </div>
+
+        {exportError && (
+          <div role="alert" className="bg-destructive/10 border border-destructive/30 rounded-[var(--radius)] p-4 mb-6">
+            <p className="text-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>{t(exportError)}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onUseOriginal} disabled={isExporting}>
+            {t('editor.useOriginal')}
+          </Button>
+          <Button onClick={handleApply} disabled={!crop || isExporting}>
+            {isExporting ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                {t(isVideo ? 'editor.recording' : 'editor.saving')}
+              </>
+            ) : (
+              t('editor.apply')
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
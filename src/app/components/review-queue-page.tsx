@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router';
+import { ArrowLeft, CheckCircle2, AlertCircle, UserCheck, Inbox, Loader2, Scale } from 'lucide-react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { FLAG_LABELS } from '../lib/moderation/flag-labels';
+import { FLAGGED_CATEGORIES } from '../lib/moderation/types';
+import { DEFAULT_LOCALE, translate } from '../lib/i18n';
+import { listReviewItems, decideReview, subscribeToReviewQueue, type ReviewItem } from '../lib/review-queue';
+
+// Reviewer-facing screen for uploads the moderation policy held for a human
+// decision, and for partner appeals against rejections. Internal, so it stays
+// in English whatever the partner UI's locale is.
+export function ReviewQueuePage() {
+  const [items, setItems] = useState<ReviewItem[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const load = () =>
+    listReviewItems()
+      .then(result => {
+        setItems(result);
+        setLoadError(null);
+      })
+      .catch(err => setLoadError((err as Error).message || 'The review queue could not be read.'));
+
+  useEffect(() => {
+    load();
+    return subscribeToReviewQueue(load);
+  }, []);
+
+  const pendingCount = items?.filter(item => item.status === 'pending').length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border bg-background">
+        <div className="max-w-[1200px] mx-auto px-8 py-6 flex items-center gap-4">
+          <Button variant="ghost" size="icon" className="rounded-full" asChild>
+            <Link to="/" aria-label="Back to campaigns">
+              <ArrowLeft size={20} />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-foreground" style={{ fontSize: '24px', fontWeight: 'var(--font-weight-semibold)' }}>
+              Story Review Queue
+            </h1>
+            <p className="text-muted-foreground" style={{ fontSize: '15px' }}>
+              {items === null
+                ? loadError ? 'Could not load the queue' : 'Loading…'
+                : `${pendingCount} item${pendingCount !== 1 ? 's' : ''} awaiting review`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-[1200px] mx-auto px-8 py-8 space-y-6">
+        {loadError && (
+          <div role="alert" className="bg-destructive/10 border border-destructive/30 rounded-[var(--radius)] p-6 flex items-start gap-3">
+            <AlertCircle size={20} className="text-destructive flex-shrink-0 mt-0.5" />
+            <div className="flex-1 space-y-3">
+              <p style={{ fontSize: '15px' }}>Could not load the review queue: {loadError}</p>
+              <Button variant="outline" onClick={load}>
+                Try again
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {items === null && !loadError && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="animate-spin text-primary" size={40} />
+          </div>
+        )}
+
+        {items?.length === 0 && (
+          <div className="bg-card border border-border rounded-[var(--radius)] p-16 flex flex-col items-center text-center">
+            <Inbox size={48} className="text-muted-foreground mb-4" />
+            <h4 className="mb-2" style={{ fontSize: '18px', fontWeight: 'var(--font-weight-medium)' }}>
+              Nothing to review
+            </h4>
+            <p className="text-muted-foreground" style={{ fontSize: '15px' }}>
+              Uploads the AI can't decide on, and partner appeals, will appear here.
+            </p>
+          </div>
+        )}
+
+        {items?.map(item => <ReviewCard key={item.id} item={item} />)}
+      </div>
+    </div>
+  );
+}
+
+function ReviewCard({ item }: { item: ReviewItem }) {
+  const [url, setUrl] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState<'approved' | 'rejected' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(item.file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [item.file]);
+
+  const handleDecision = async (decision: 'approved' | 'rejected') => {
+    setSubmitting(decision);
+    setError(null);
+    try {
+      await decideReview(item.id, decision, note);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const isAppeal = item.kind === 'appeal';
+  const analysis = item.aiAnalysis;
+  const triggeredFlags = analysis ? FLAGGED_CATEGORIES.filter(category => analysis.flaggedCategories[category]) : [];
+  const aiReasons = [...item.reasons, ...(analysis?.moderationReasons ?? [])];
+
+  return (
+    <div className="bg-card border border-border rounded-[var(--radius)] p-6 grid grid-cols-[220px_1fr] gap-6">
+      {/* Media */}
+      <div className="aspect-[9/16] bg-muted-foreground/10 rounded-[var(--radius)] overflow-hidden">
+        {url &&
+          (item.type === 'image' ? (
+            <img src={url} alt={item.fileName} className="w-full h-full object-contain" />
+          ) : (
+            <video src={url} className="w-full h-full object-contain" controls muted />
+          ))}
+      </div>
+
+      <div className="space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h4 style={{ fontSize: '18px', fontWeight: 'var(--font-weight-medium)' }}>{item.fileName}</h4>
+            <p className="text-muted-foreground" style={{ fontSize: '14px' }}>
+              {isAppeal ? 'Appealed' : 'Submitted'} {new Date(item.submittedAt).toLocaleString()}
+              {item.treatmentName && ` · Detected: ${item.treatmentName}`}
+              {analysis && ` · ${Math.round(analysis.confidence * 100)}% confidence`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isAppeal && (
+              <span
+                className="inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 flex-shrink-0 bg-primary/15 text-primary"
+                style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}
+              >
+                <Scale size={12} />
+                Appeal
+              </span>
+            )}
+            <ReviewStatusBadge status={item.status} />
+          </div>
+        </div>
+
+        {/* Partner's justification */}
+        {isAppeal && (
+          <div className="bg-primary/10 border border-primary/20 rounded-[var(--radius)] p-4 space-y-2">
+            <p style={{ fontSize: '14px', lineHeight: '1.6' }}>
+              <strong>Partner's explanation:</strong> {item.justification}
+            </p>
+            {item.previousDecision?.reviewerNote && (
+              <p className="text-muted-foreground" style={{ fontSize: '14px', lineHeight: '1.6' }}>
+                <strong className="text-foreground">Earlier reviewer note:</strong> {item.previousDecision.reviewerNote}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* AI reasons */}
+        {aiReasons.length > 0 && (
+          <div>
+            <div className="text-muted-foreground mb-2" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+              {isAppeal ? 'Why it was rejected' : 'Why this needs review'}
+            </div>
+            <ul className="space-y-1">
+              {aiReasons.map((reason, index) => (
+                <li key={index} className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+                  • {reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* AI flags */}
+        <div>
+          <div className="text-muted-foreground mb-2" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+            AI Flags
+          </div>
+          {triggeredFlags.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {triggeredFlags.map(category => (
+                <span key={category} className="bg-destructive/15 text-destructive rounded-full px-2.5 py-0.5" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}>
+                  {translate(DEFAULT_LOCALE, FLAG_LABELS[category])}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground" style={{ fontSize: '14px' }}>No categories flagged</p>
+          )}
+        </div>
+
+        {/* Decision */}
+        {item.status === 'pending' ? (
+          <div className="space-y-3">
+            <Textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="Note for the partner (optional)"
+              aria-label="Reviewer note"
+            />
+            {error && (
+              <p role="alert" className="text-destructive" style={{ fontSize: '14px' }}>{error}</p>
+            )}
+            <div className="flex gap-3">
+              <Button onClick={() => handleDecision('approved')} disabled={submitting !== null}>
+                {submitting === 'approved' ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle2 size={16} />}
+                {isAppeal ? 'Overturn and approve' : 'Approve'}
+              </Button>
+              <Button variant="destructive" onClick={() => handleDecision('rejected')} disabled={submitting !== null}>
+                {submitting === 'rejected' ? <Loader2 size={16} className="animate-spin" /> : <AlertCircle size={16} />}
+                {isAppeal ? 'Uphold rejection' : 'Reject'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          item.reviewerNote && (
+            <div className="bg-muted/50 rounded-[var(--radius)] p-4">
+              <p className="text-muted-foreground" style={{ fontSize: '14px', lineHeight: '1.6' }}>
+                <strong className="text-foreground">Reviewer note:</strong> {item.reviewerNote}
+              </p>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+const REVIEW_STATUS_BADGES: Record<ReviewItem['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-500/15 text-yellow-700' },
+  approved: { label: 'Approved', className: 'bg-chart-2/15 text-chart-2' },
+  rejected: { label: 'Rejected', className: 'bg-destructive/15 text-destructive' },
+};
+
+function ReviewStatusBadge({ status }: { status: ReviewItem['status'] }) {
+  const badge = REVIEW_STATUS_BADGES[status];
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 flex-shrink-0 ${badge.className}`}
+      style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}
+    >
+      <UserCheck size={12} />
+      {badge.label}
+    </span>
+  );
+}
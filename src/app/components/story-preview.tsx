@@ -2,13 +2,17 @@ import { useState, useEffect } from 'react';
 import { X, ChevronLeft, ChevronRight, Heart, Share2, Sparkles, Smartphone, MapPin, ChevronUp, Loader2, CheckCircle, BarChart3 } from 'lucide-react';
 import { Button } from './ui/button';
 import type { UploadedMedia } from './story-upload-modal';
+import { useI18n } from '../lib/i18n/provider';
 
 interface StoryPreviewProps {
+  /** Slides in the order they will be published. */
   media: UploadedMedia[];
   onClose: () => void;
+  onPublish?: () => Promise<void>;
 }
 
-export function StoryPreview({ media, onClose }: StoryPreviewProps) {
+export function StoryPreview({ media, onClose, onPublish }: StoryPreviewProps) {
+  const { t, rich, formatNumber } = useI18n();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [progress, setProgress] = useState(0);
   const [isPublishing, setIsPublishing] = useState(false);
@@ -56,8 +60,12 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
 
   const handlePublish = async () => {
     setIsPublishing(true);
-    // Simulate publishing process
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    if (onPublish) {
+      await onPublish();
+    } else {
+      // Simulate publishing process
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
     setIsPublishing(false);
     setShowSuccessDialog(true);
   };
@@ -81,10 +89,10 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
               
               {/* Exciting Message */}
               <h2 className="mb-3" style={{ fontSize: '24px', fontWeight: 'var(--font-weight-bold)' }}>
-                🎉 Your Stories Are Going Live!
+                {t('success.title')}
               </h2>
               <p className="text-muted-foreground mb-6" style={{ fontSize: '16px', lineHeight: '1.6' }}>
-                Amazing! Your stories will appear on the Treatwell marketplace in the next few minutes and start attracting customers.
+                {t('success.body')}
               </p>
 
               {/* Stats Info Card */}
@@ -95,10 +103,10 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
                   </div>
                   <div>
                     <h4 className="text-foreground mb-1.5" style={{ fontSize: '15px', fontWeight: 'var(--font-weight-bold)' }}>
-                      Track Your Success
+                      {t('success.trackTitle')}
                     </h4>
                     <p className="text-muted-foreground" style={{ fontSize: '14px', lineHeight: '1.5' }}>
-                      Visit the <strong className="text-foreground">Reports</strong> section to see how many customers viewed your stories and placed bookings. Watch your engagement grow! 📈
+                      {rich('success.trackBody', { reports: <strong className="text-foreground">{t('success.reports')}</strong> })}
                     </p>
                   </div>
                 </div>
@@ -106,7 +114,7 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
 
               {/* CTA Button */}
               <Button onClick={handleSuccessClose} className="w-full" size="lg">
-                Done
+                {t('common.done')}
               </Button>
             </div>
           </div>
@@ -116,7 +124,7 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
       {/* Desktop: Info panel on left */}
       <div className="hidden lg:block w-[400px] h-full bg-card border border-border rounded-[var(--radius-card)] p-6 overflow-auto mr-6">
         <div className="flex items-center justify-between mb-6">
-          <h3>Preview & Publish</h3>
+          <h3>{t('storyPreview.title')}</h3>
           <button
             onClick={onClose}
             className="text-muted-foreground hover:text-foreground transition-colors"
@@ -134,16 +142,18 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
               </div>
               <div>
                 <h4 className="text-foreground mb-1" style={{ fontSize: '16px', fontWeight: 'var(--font-weight-bold)' }}>
-                  AI-Powered Customer Matching
+                  {t('matching.title')}
                 </h4>
                 <p className="text-muted-foreground" style={{ fontSize: '14px', lineHeight: '1.5' }}>
-                  Your stories will be shown to customers most likely to book your services.
+                  {t('matching.body')}
                 </p>
               </div>
             </div>
             <div className="bg-card/50 rounded-[var(--radius)] p-3 mt-3">
               <p className="text-foreground" style={{ fontSize: '13px', lineHeight: '1.5' }}>
-                <span style={{ fontWeight: 'var(--font-weight-bold)' }}>Reach new customers</span> based on their preferences, location, and booking history.
+                {rich('matching.reach', {
+                  highlight: <span style={{ fontWeight: 'var(--font-weight-bold)' }}>{t('matching.reachHighlight')}</span>,
+                })}
               </p>
             </div>
           </div>
@@ -151,7 +161,7 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
           {/* Content Status */}
           <div>
             <div className="text-muted-foreground mb-3" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-              Content Status
+              {t('storyPreview.contentStatus')}
             </div>
             <div className="space-y-2">
               {media.map((item, index) => (
@@ -166,16 +176,16 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
                       {item.status === 'approved'
                         ? (() => {
                             const name = item.treatmentName || item.aiAnalysis?.contentType?.[0];
-                            if (!name) return 'Content';
+                            if (!name) return t('storyPreview.content');
                             return item.treatmentId ? `#${item.treatmentId} – ${name}` : name;
                           })()
-                        : 'Pending validation'}
+                        : t('storyPreview.pendingValidation')}
                     </span>
                   </div>
                   <div className="flex items-center gap-1.5 text-chart-2">
                     <div className="w-1.5 h-1.5 rounded-full bg-chart-2"></div>
                     <span style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}>
-                      {item.status === 'approved' ? 'Approved' : 'Not approved'}
+                      {t(item.status === 'approved' ? 'storyPreview.approved' : 'storyPreview.notApproved')}
                     </span>
                   </div>
                 </div>
@@ -187,7 +197,7 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
           <div className="bg-muted/50 rounded-[var(--radius)] p-4 flex items-start gap-3">
             <Smartphone size={18} className="text-muted-foreground flex-shrink-0 mt-0.5" />
             <p className="text-muted-foreground" style={{ fontSize: '13px', lineHeight: '1.5' }}>
-              Preview shows how stories appear to customers on the Treatwell mobile app
+              {t('storyPreview.mobileInfo')}
             </p>
           </div>
         </div>
@@ -196,19 +206,20 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
         <div className="sticky bottom-0 bg-card border-t border-border p-6 -mx-6 -mb-6 mt-6">
           <div className="flex gap-2 mb-3">
             <Button variant="outline" onClick={onClose} className="flex-1">
-              Back to Edit
+              {t('storyPreview.backToEdit')}
             </Button>
             <Button onClick={handlePublish} className="flex-1">
               {isPublishing ? (
                 <Loader2 size={20} className="animate-spin" />
               ) : (
-                'Publish'
+                t('common.publish')
               )}
             </Button>
           </div>
           <p className="text-muted-foreground text-center" style={{ fontSize: '11px', lineHeight: '1.4' }}>
-            By publishing, you agree to Treatwell's{' '}
-            <a href="#" className="text-primary hover:underline">Terms & Conditions</a>
+            {rich('storyPreview.terms', {
+              link: <a href="#" className="text-primary hover:underline">{t('storyPreview.termsLink')}</a>,
+            })}
           </p>
         </div>
       </div>
@@ -224,8 +235,8 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
           <div className="relative w-full h-full bg-black rounded-[52px] overflow-hidden flex flex-col">
             {/* Progress bars */}
             <div className="absolute top-0 left-0 right-0 z-20 flex gap-1 p-3 pt-8">
-              {media.map((_, index) => (
-                <div key={index} className="flex-1 h-1 bg-white/30 rounded-full overflow-hidden">
+              {media.map((item, index) => (
+                <div key={item.id} className="flex-1 h-1 bg-white/30 rounded-full overflow-hidden">
                   <div
                     className="h-full bg-white transition-all duration-50"
                     style={{
@@ -271,7 +282,7 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
               {currentMedia.type === 'image' ? (
                 <img
                   src={currentMedia.url}
-                  alt="Story content"
+                  alt={t('storyPreview.storyAlt')}
                   className="w-full h-full object-contain bg-black"
                 />
               ) : (
@@ -301,11 +312,11 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
             <div className="absolute bottom-0 left-0 right-0 z-30 pb-6 pt-20 bg-gradient-to-t from-black/80 via-black/40 to-transparent">
               <div className="px-6">
                 <button className="w-full bg-white text-black rounded-full py-3.5 px-6 transition-all hover:bg-white/90 active:scale-95" style={{ fontSize: '15px', fontWeight: 'var(--font-weight-bold)' }}>
-                  Book with Me
+                  {t('storyPreview.book')}
                 </button>
                 <div className="flex items-center justify-center gap-1 mt-3 text-white/60">
                   <ChevronUp size={16} />
-                  <span style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>Swipe up to book</span>
+                  <span style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>{t('storyPreview.swipeUp')}</span>
                 </div>
               </div>
             </div>
@@ -314,11 +325,11 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
             <div className="absolute bottom-40 right-3 z-20 flex flex-col gap-5">
               <button className="text-white hover:text-white/80 transition-all active:scale-90 flex flex-col items-center gap-1.5 drop-shadow-[0_2px_8px_rgba(0,0,0,0.4)]">
                 <Heart size={28} fill="none" strokeWidth={2.5} />
-                <span style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}>123</span>
+                <span style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}>{formatNumber(123)}</span>
               </button>
               <button className="text-white hover:text-white/80 transition-all active:scale-90 flex flex-col items-center gap-1.5 drop-shadow-[0_2px_8px_rgba(0,0,0,0.4)]">
                 <Share2 size={28} strokeWidth={2.5} />
-                <span style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}>Share</span>
+                <span style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}>{t('storyPreview.share')}</span>
               </button>
             </div>
           </div>
@@ -327,7 +338,7 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
         {/* Phone label - mobile only */}
         <div className="lg:hidden absolute -bottom-12 left-1/2 -translate-x-1/2 flex items-center gap-2 text-muted-foreground">
           <Smartphone size={16} />
-          <span style={{ fontSize: '14px' }}>Mobile App Preview</span>
+          <span style={{ fontSize: '14px' }}>{t('storyPreview.mobileLabel')}</span>
         </div>
 
         {/* Navigation buttons for stories */}
@@ -353,13 +364,13 @@ export function StoryPreview({ media, onClose }: StoryPreviewProps) {
       <div className="lg:hidden fixed bottom-0 left-0 right-0 bg-card border-t border-border p-4">
         <div className="flex gap-2 max-w-md mx-auto">
           <Button variant="outline" onClick={onClose} className="flex-1">
-            Back to Edit
+            {t('storyPreview.backToEdit')}
           </Button>
           <Button onClick={handlePublish} className="flex-1">
             {isPublishing ? (
               <Loader2 size={20} className="animate-spin" />
             ) : (
-              'Publish'
+              t('common.publish')
             )}
           </Button>
         </div>
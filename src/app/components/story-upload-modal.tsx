@@ -1,6 +1,56 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { DndProvider, useDrag, useDrop } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
 import { Button } from './ui/button';
-import { Upload, X, AlertCircle, CheckCircle2, Image as ImageIcon, Video, Loader2, ArrowLeft, Sparkles, BarChart3, Shield } from 'lucide-react';
+import { Textarea } from './ui/textarea';
+import { Progress } from './ui/progress';
+import { StoryPreview } from './story-preview';
+import { MediaEditor } from './media-editor';
+import { UploadHistory } from './upload-history';
+import { TreatmentPicker, type TreatmentSource } from './treatment-picker';
+import { TagEditor } from './tag-editor';
+import { LocaleSwitcher } from './locale-switcher';
+import {
+  SUPPORTED_MEDIA_TYPES,
+  FILE_PRE_CHECK_RULES,
+  runFilePreChecks,
+  runMediaPreChecks,
+  hasBlockingFailure,
+  type PreCheckResult,
+} from '../lib/media-validation';
+import { needsEditing } from '../lib/media-editing';
+import { createJobQueue } from '../lib/job-queue';
+import { preprocessImage } from '../lib/image-preprocessing';
+import { detectConvertibleFormat, convertToSupportedImage, UPLOAD_ACCEPT } from '../lib/image-formats';
+import { getModerationProvider, type FlaggedCategory, type ModerationAnalysis } from '../lib/moderation';
+import { analyzeWithCache } from '../lib/moderation/cache';
+import { mergeContactInfo } from '../lib/moderation/contact-info';
+import { buildModerationRequest } from '../lib/moderation/media-encoding';
+import { FLAG_LABELS } from '../lib/moderation/flag-labels';
+import { scanForContactInfo } from '../lib/moderation/text-scan';
+import { isAbortError, ModerationRequestError } from '../lib/moderation/retry';
+import {
+  getTreatmentCatalogue,
+  rankTreatments,
+  curateTags,
+  recurateTags,
+  type Treatment,
+  type TreatmentCategory,
+  type TreatmentMatch,
+} from '../lib/treatments';
+import { deriveVerdict, verdictThresholdsFromEnv, type VerdictDecision } from '../lib/moderation/policy';
+import {
+  submitForReview,
+  submitAppeal,
+  withdrawReviewItem,
+  getReviewItem,
+  subscribeToReviewQueue,
+  AppealError,
+  MAX_APPEAL_LENGTH,
+} from '../lib/review-queue';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../lib/i18n/provider';
+import { Upload, X, AlertCircle, CheckCircle2, Image as ImageIcon, Video, Loader2, ArrowLeft, Sparkles, BarChart3, Shield, Plus, Eye, GripVertical, UserCheck, Scale, Database, RotateCw, Clock } from 'lucide-react';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -9,7 +59,9 @@ export interface UploadedMedia {
   file: File;
   url: string;
   type: 'image' | 'video';
-  status: 'analyzing' | 'approved' | 'rejected' | 'error';
+  status: 'analyzing' | 'pending_review' | 'appealed' | 'approved' | 'rejected' | 'error';
+  /** Progress through the analysis queue; 'done' until the next batch of uploads starts. */
+  analysisState?: 'queued' | 'running' | 'done';
   /**
    * Human-readable treatment name/type that will be displayed to customers
    * on the B2C app once the upload has passed validation.
@@ -20,790 +72,489 @@ export interface UploadedMedia {
    * Canonical Treatwell treatment ID corresponding to the inferred treatmentName.
    */
   treatmentId?: number;
-  aiAnalysis?: {
-    contentType: string[];
-    tags: string[];
-    moderationStatus: 'safe' | 'unsafe';
-    moderationReasons?: string[];
-    confidence: number;
-    flaggedCategories: {
-      nudity: boolean;
-      profanity: boolean;
-      violence: boolean;
-      illegalItems: boolean;
-      contactInfo: boolean;
-      offTopicContent: boolean;
-    };
-  };
-  error?: string;
+  /** Catalogue category of treatmentId; picks the tag vocabulary. */
+  treatmentCategory?: TreatmentCategory;
+  /** Whether treatmentId came from the AI match or the partner picked it. */
+  treatmentSource?: TreatmentSource;
+  /** Ranked catalogue matches for the AI result, offered first in the treatment picker. */
+  treatmentSuggestions?: TreatmentMatch[];
+  /** AI tags normalised to the controlled vocabulary, then edited by the partner. Published for discovery. */
+  tags?: string[];
+  /** Client-side checks (size, type, duration, resolution, aspect ratio) run before AI analysis. */
+  preChecks?: PreCheckResult[];
+  aiAnalysis?: ModerationAnalysis;
+  /** aiAnalysis was reused from an earlier analysis of the same content. */
+  fromCache?: boolean;
+  /** Final verdict derived by the moderation policy from aiAnalysis. */
+  verdict?: VerdictDecision;
+  /** Set once a human reviewer has decided on a pending_review item. */
+  review?: { note?: string; decidedAt: number };
+  /** Set when the partner appeals a rejection; outcome arrives once a reviewer decides. */
+  appeal?: { justification: string; outcome?: 'overturned' | 'upheld' };
+  error?: MessageKey;
 }
 
-// Canonical Treatwell treatment catalogue used to normalise AI-inferred types
-const TREATMENT_TYPES: { id: number; name: string }[] = [
-  { id: 1, name: 'Acupressure' },
-  { id: 2, name: 'Acupuncture' },
-  { id: 3, name: 'Aerobics' },
-  { id: 4, name: 'Alexander Technique' },
-  { id: 13, name: 'Amatsu' },
-  { id: 14, name: 'Angel Therapy' },
-  { id: 15, name: 'Aromatherapy' },
-  { id: 16, name: 'Ashtanga Yoga' },
-  { id: 18, name: 'Ayurvedic' },
-  { id: 19, name: 'Bach Flower Remedies' },
-  { id: 22, name: 'Bikram Yoga' },
-  { id: 24, name: 'Body Pump' },
-  { id: 25, name: 'Body Wraps' },
-  { id: 26, name: 'Cosmetic Injectables' },
-  { id: 27, name: 'Bowen Technique' },
-  { id: 28, name: 'Boxercise' },
-  { id: 30, name: 'Chemical Skin Peel' },
-  { id: 32, name: 'Herbal Medicine and Supplements' },
-  { id: 35, name: 'Chiropractic' },
-  { id: 36, name: 'Circuit Training' },
-  { id: 37, name: 'Colonic Hydrotherapy' },
-  { id: 38, name: 'Colour Therapy' },
-  { id: 40, name: 'Cellulite Treatments' },
-  { id: 41, name: 'Hyperhidrosis Treatment' },
-  { id: 44, name: 'Craniosacral Therapy' },
-  { id: 45, name: 'Crystal Therapy' },
-  { id: 46, name: 'Deep Tissue Massage' },
-  { id: 48, name: 'Eyebrow and Eyelash Treatments' },
-  { id: 49, name: 'Face Yoga' },
-  { id: 50, name: 'Facials' },
-  { id: 51, name: 'Gyrotonic Expansion System' },
-  { id: 52, name: 'Laser Hair Removal' },
-  { id: 54, name: 'Electrolysis' },
-  { id: 55, name: 'Sugaring' },
-  { id: 56, name: 'Threading' },
-  { id: 57, name: 'Waxing' },
-  { id: 59, name: 'Healing' },
-  { id: 61, name: 'Hellerwork' },
-  { id: 62, name: 'Herbal & Flower Essence' },
-  { id: 63, name: 'Homeopathy' },
-  { id: 64, name: 'Ear Candling' },
-  { id: 65, name: 'Stone Massage Therapy' },
-  { id: 66, name: 'Hydrotherapy' },
-  { id: 67, name: 'Hypnotherapy' },
-  { id: 69, name: 'Iridology' },
-  { id: 70, name: 'Isologen Process' },
-  { id: 72, name: 'Kickboxing' },
-  { id: 73, name: 'Kinesiology' },
-  { id: 74, name: 'Laser Treatment - Thread Veins' },
-  { id: 75, name: 'Laser Treatments - Resurfacing' },
-  { id: 76, name: 'Laser Treatments - Skin Rejuvenation' },
-  { id: 77, name: 'Light Therapy' },
-  { id: 79, name: 'Lymphatic Drainage' },
-  { id: 81, name: 'Manicure' },
-  { id: 82, name: 'Therapeutic Massage' },
-  { id: 84, name: 'Naturopathy' },
-  { id: 85, name: 'Nutritional Advice & Treatments' },
-  { id: 86, name: 'Osteopathy' },
-  { id: 87, name: 'Pedicure' },
-  { id: 88, name: 'Personal Training' },
-  { id: 89, name: 'Pilates' },
-  { id: 91, name: 'Psychic Love Coaching' },
-  { id: 92, name: 'Qigong' },
-  { id: 93, name: 'Radionics' },
-  { id: 94, name: 'Raja Yoga' },
-  { id: 95, name: 'Reflexology' },
-  { id: 96, name: 'Reiki' },
-  { id: 112, name: 'Rolfing' },
-  { id: 114, name: 'Shiatsu Massage' },
-  { id: 115, name: 'Breast Enlargement' },
-  { id: 116, name: 'Breast Reduction - Female' },
-  { id: 119, name: 'Collagen Treatments' },
-  { id: 120, name: 'Combined Decongestive Therapy' },
-  { id: 121, name: 'Daoyin Tao' },
-  { id: 122, name: 'Dermal Fillers' },
-  { id: 124, name: 'Doula Birth Companion' },
-  { id: 125, name: 'Emotional Therapy' },
-  { id: 126, name: 'Energy Therapy' },
-  { id: 128, name: 'Facials - CACI' },
-  { id: 130, name: 'Feng Shui' },
-  { id: 133, name: 'Acne Treatments' },
-  { id: 138, name: 'Krav Maga' },
-  { id: 139, name: 'Lamaze' },
-  { id: 141, name: 'Pre and Post Natal Massage' },
-  { id: 142, name: 'Skin Lightening' },
-  { id: 143, name: 'Spinning' },
-  { id: 144, name: 'Tai Chi' },
-  { id: 145, name: 'Teeth Whitening' },
-  { id: 146, name: 'Turkish Bath' },
-  { id: 148, name: 'Steam and Sauna Therapy' },
-  { id: 149, name: 'Sports Massage' },
-  { id: 150, name: 'Stretching' },
-  { id: 151, name: 'Swedish Massage' },
-  { id: 152, name: 'Sunbeds and Tanning Booths' },
-  { id: 153, name: 'Spray Tanning and Sunless Tanning' },
-  { id: 155, name: 'Thai Massage' },
-  { id: 157, name: 'Trager Approach' },
-  { id: 158, name: 'Traditional Chinese Medicine' },
-  { id: 159, name: 'Tui Na Massage' },
-  { id: 160, name: 'Yoga' },
-  { id: 164, name: "Men's Shaving" },
-  { id: 166, name: 'Haircuts and Hairdressing' },
-  { id: 172, name: 'Aromatherapy Massage' },
-  { id: 173, name: 'Image Consulting' },
-  { id: 178, name: 'Swimming' },
-  { id: 184, name: 'Body Exfoliation Treatments' },
-  { id: 191, name: 'Foot Massage' },
-  { id: 196, name: 'Cosmetic Surgery' },
-  { id: 197, name: 'Liposuction' },
-  { id: 198, name: 'Rhinoplasty' },
-  { id: 199, name: 'Mole Removal' },
-  { id: 201, name: 'Face Lift' },
-  { id: 203, name: 'Cheek Enhancement' },
-  { id: 205, name: 'Body Treatments - CACI' },
-  { id: 206, name: 'Scar Tissue Treatments' },
-  { id: 207, name: 'Breathing Techniques' },
-  { id: 209, name: 'Indian Head Massage' },
-  { id: 212, name: 'Makeup Treatments' },
-  { id: 214, name: 'Dental Treatments' },
-  { id: 215, name: 'Fresh Breath Treatments' },
-  { id: 216, name: 'Implants (non Breast)' },
-  { id: 217, name: 'Cupping' },
-  { id: 219, name: 'Sleep Treatments' },
-  { id: 223, name: 'Physiotherapy' },
-  { id: 225, name: 'Intuitive Readings' },
-  { id: 226, name: 'Strength Training' },
-  { id: 227, name: 'Meditation' },
-  { id: 229, name: 'Ki Therapy' },
-  { id: 231, name: 'Hair Loss Treatments - Non Surgical' },
-  { id: 235, name: 'Breast Reduction - Male' },
-  { id: 241, name: 'Microdermabrasion' },
-  { id: 242, name: 'Kundalini Yoga' },
-  { id: 243, name: 'Life Coaching' },
-  { id: 244, name: 'Grinberg Method' },
-  { id: 246, name: 'Backcials' },
-  { id: 247, name: 'Rasul and Mud Treatments' },
-  { id: 248, name: 'Nail Extensions & Overlays' },
-  { id: 249, name: 'Lomi Lomi Massage' },
-  { id: 251, name: 'Piercing' },
-  { id: 253, name: 'Cosmetic Skin Treatments' },
-  { id: 254, name: 'Cryotherapy' },
-  { id: 255, name: 'Sex Counselling' },
-  { id: 256, name: 'Shirodhara' },
-  { id: 257, name: 'Four Hands Massage' },
-  { id: 258, name: 'Laser Eye Surgery' },
-  { id: 259, name: 'Feldenkrais Method' },
-  { id: 262, name: 'Tummy tuck' },
-  { id: 263, name: 'Ultrasound Therapy' },
-  { id: 266, name: 'Vibration Plate Training' },
-  { id: 270, name: 'Scalp Reduction' },
-  { id: 271, name: 'Psychotherapy' },
-  { id: 272, name: 'Dermaplaning' },
-  { id: 273, name: 'Hair Colouring and Highlights Treatments' },
-  { id: 274, name: 'Suspension Training' },
-  { id: 276, name: 'Trigger Point Therapy' },
-  { id: 278, name: 'Facial Rejuvenation Acupuncture' },
-  { id: 279, name: 'Breast Fillers' },
-  { id: 281, name: 'Jivamukti Yoga' },
-  { id: 282, name: 'Vinyasa Yoga' },
-  { id: 283, name: 'Windsurfing' },
-  { id: 284, name: 'Tennis' },
-  { id: 286, name: 'Tattoo Removal' },
-  { id: 288, name: 'Surfing' },
-  { id: 290, name: 'Capoeira' },
-  { id: 291, name: 'Thread Vein Treatment' },
-  { id: 292, name: 'Lipo-Injection' },
-  { id: 296, name: 'Iyengar Yoga' },
-  { id: 299, name: 'Carnival Slam' },
-  { id: 300, name: 'Neuro Linguistic programming' },
-  { id: 301, name: 'Body Attack' },
-  { id: 305, name: 'Jujitsu' },
-  { id: 307, name: 'Taekwon-Do' },
-  { id: 308, name: "Children's Yoga" },
-  { id: 309, name: 'Ballet' },
-  { id: 310, name: 'Street Dance' },
-  { id: 311, name: 'Belly Dancing' },
-  { id: 312, name: 'Karate' },
-  { id: 313, name: 'Pole Dancing' },
-  { id: 314, name: 'Ballroom Dancing' },
-  { id: 315, name: 'Bollywood Dancing' },
-  { id: 317, name: 'Aqua Aerobics' },
-  { id: 318, name: 'Kung Fu' },
-  { id: 319, name: 'Running' },
-  { id: 320, name: 'Body Sculpting' },
-  { id: 321, name: 'Photorejuvenation Treatments' },
-  { id: 323, name: 'Counselling' },
-  { id: 326, name: 'Step Aerobics' },
-  { id: 328, name: 'Ballet Yoga Fusion' },
-  { id: 330, name: 'Aikido' },
-  { id: 331, name: 'Wing Tsun' },
-  { id: 332, name: 'Body Balance' },
-  { id: 333, name: 'Body Step' },
-  { id: 335, name: 'Hand Massage' },
-  { id: 336, name: 'Hair Extensions' },
-  { id: 337, name: 'Speech Therapy' },
-  { id: 339, name: 'Muay Thai' },
-  { id: 342, name: 'Face Massage' },
-  { id: 343, name: 'Addictions Counselling' },
-  { id: 346, name: 'Sivananda Yoga' },
-  { id: 349, name: 'Ananda Yoga' },
-  { id: 350, name: 'Anusara Yoga' },
-  { id: 351, name: 'Forrest Yoga' },
-  { id: 352, name: 'Dahn Yoga' },
-  { id: 353, name: 'Integral Yoga' },
-  { id: 354, name: 'TriYoga' },
-  { id: 355, name: 'Kripalu Yoga' },
-  { id: 356, name: 'Kriya Yoga' },
-  { id: 357, name: 'Sahaja Yoga' },
-  { id: 358, name: 'Scaravelli Yoga' },
-  { id: 359, name: 'Prana Flow' },
-  { id: 360, name: 'Svaroopa(R) Yoga' },
-  { id: 361, name: 'Viniyoga' },
-  { id: 362, name: 'Yin Yoga' },
-  { id: 363, name: 'Yogilates' },
-  { id: 364, name: 'QiYoga' },
-  { id: 365, name: 'Mesotherapy' },
-  { id: 366, name: 'Fencing' },
-  { id: 367, name: 'Salsa' },
-  { id: 368, name: 'Latin Dancing' },
-  { id: 369, name: 'Thermography' },
-  { id: 370, name: 'Walking Groups' },
-  { id: 371, name: 'Dynamic Yoga' },
-  { id: 372, name: 'Karma Yoga' },
-  { id: 373, name: 'Bhakti Yoga' },
-  { id: 374, name: 'Jnana Yoga' },
-  { id: 376, name: 'Self Defence' },
-  { id: 377, name: 'Canoeing' },
-  { id: 378, name: 'Gyrokinesis' },
-  { id: 379, name: 'Burlesque' },
-  { id: 380, name: 'Metamorphic Technique' },
-  { id: 382, name: 'Skincare Consultation' },
-  { id: 383, name: 'BodyTalk' },
-  { id: 384, name: 'Myofascial Release Therapy' },
-  { id: 385, name: 'Cognitive Behaviour Therapy' },
-  { id: 386, name: 'Can-Can' },
-  { id: 388, name: 'Psychology' },
-  { id: 389, name: 'Styling' },
-  { id: 391, name: 'Coaching' },
-  { id: 392, name: 'Rock Climbing' },
-  { id: 393, name: 'Orthodontics' },
-  { id: 394, name: 'Timeline Therapy' },
-  { id: 395, name: 'Allergy Testing' },
-  { id: 396, name: 'Lindy Hop' },
-  { id: 397, name: 'Body Conditioning' },
-  { id: 398, name: 'Infrared Therapy' },
-  { id: 399, name: 'Intense Pulsed Light Therapy (IPL)' },
-  { id: 400, name: 'Lava Shells Massage' },
-  { id: 401, name: 'Waterskiing' },
-  { id: 402, name: 'Mountain Biking' },
-  { id: 403, name: 'Golf' },
-  { id: 404, name: 'Squash' },
-  { id: 406, name: 'Stress Management' },
-  { id: 407, name: 'Ayurvedic Massages' },
-  { id: 408, name: 'Henna Designs and Tattoos' },
-  { id: 409, name: 'Boxing' },
-  { id: 411, name: 'Martial Arts' },
-  { id: 412, name: 'Face Lift - Nonsurgical' },
-  { id: 413, name: 'Weight Loss Treatments' },
-  { id: 414, name: 'Bust Treatments and Enhancement' },
-  { id: 415, name: 'Brazilian Waxing' },
-  { id: 419, name: 'Autogenic Therapy' },
-  { id: 420, name: 'Cardio Training' },
-  { id: 421, name: 'Glasses' },
-  { id: 422, name: 'Eye Tests' },
-  { id: 423, name: 'Contact Lenses' },
-  { id: 424, name: 'Intraocular Lenses' },
-  { id: 425, name: 'Permanent and Semi-Permanent Makeup Treatments' },
-  { id: 427, name: 'Brazilian Blow Dry Keratin Treatment' },
-  { id: 428, name: 'Chakra Massage' },
-  { id: 429, name: 'Chair Massage' },
-  { id: 430, name: 'Hula' },
-  { id: 431, name: 'Hula Hoop' },
-  { id: 432, name: 'Legs, Bums and Tums' },
-  { id: 433, name: 'Ear Pinning' },
-  { id: 434, name: 'Cosmetic Dental Treatments' },
-  { id: 435, name: 'Natural Breast Enlargement' },
-  { id: 436, name: 'Mastopexy' },
-  { id: 438, name: 'Skiing' },
-  { id: 439, name: 'Oxygen Facial' },
-  { id: 440, name: 'Acustaple' },
-  { id: 441, name: 'Hasya yoga' },
-  { id: 442, name: 'Dracula Therapy' },
-  { id: 444, name: 'Ice Skating' },
-  { id: 446, name: 'Naprapathy' },
-  { id: 449, name: 'Halotherapy' },
-  { id: 450, name: 'Zumba' },
-  { id: 451, name: 'Swedercise' },
-  { id: 452, name: 'Magnetic Therapy' },
-  { id: 457, name: 'Piloxing' },
-  { id: 458, name: 'Hatha Yoga' },
-  { id: 459, name: 'Water Crew' },
-  { id: 460, name: 'Chiropody' },
-  { id: 461, name: 'Trapeze' },
-  { id: 462, name: 'Acrobatics' },
-  { id: 464, name: 'Yoga Power Plate' },
-  { id: 465, name: 'Blow Dry' },
-  { id: 470, name: 'Areola Reconstruction' },
-  { id: 471, name: 'Hair Simulation' },
-  { id: 472, name: 'Vaginal Tightening' },
-  { id: 473, name: 'Buttock Implants' },
-  { id: 474, name: 'Arm Lift' },
-  { id: 475, name: 'Thigh Lift' },
-  { id: 477, name: 'Mole/Cyst Removal' },
-  { id: 478, name: 'LED Light Therapy' },
-  { id: 479, name: 'Skin Tightening' },
-  { id: 480, name: 'Line Dancing' },
-  { id: 482, name: 'Egyptian Dance' },
-  { id: 483, name: 'Mind Boxing' },
-  { id: 484, name: 'Hair Consulting' },
-  { id: 485, name: 'Hair Conditioning and Scalp Treatments' },
-  { id: 486, name: 'Permanent Waves' },
-  { id: 487, name: 'Weight Loss Hypnotherapy' },
-  { id: 490, name: 'Barre Work' },
-  { id: 491, name: 'Anger Management' },
-  { id: 492, name: 'Beard Trimming' },
-  { id: 496, name: 'Prenatal Yoga' },
-  { id: 497, name: 'Power Yoga' },
-  { id: 498, name: 'Baptiste Power Yoga' },
-  { id: 500, name: 'Poi Spinning' },
-  { id: 501, name: 'Kettlebells' },
-  { id: 502, name: 'Tap Dancing' },
-  { id: 503, name: 'Cheerleading' },
-  { id: 504, name: 'DeRose Method' },
-  { id: 505, name: 'Football' },
-  { id: 506, name: 'Satyananda Yoga®' },
-  { id: 507, name: 'Jazz Dance' },
-  { id: 508, name: 'Modern Dance' },
-  { id: 509, name: 'Floatation' },
-  { id: 512, name: 'Gastric Band' },
-  { id: 515, name: 'Kayoga™' },
-  { id: 516, name: 'Carboxytherapy' },
-  { id: 517, name: 'Micro-Needling' },
-  { id: 518, name: 'Hollywood Waxing' },
-  { id: 519, name: 'Dream Therapy' },
-  { id: 521, name: 'Aqua Yoga' },
-  { id: 522, name: 'Aquanatal' },
-  { id: 523, name: 'Yamuna Body Rolling' },
-  { id: 524, name: 'Somatic Experiencing®' },
-  { id: 525, name: 'Body Treatments' },
-  { id: 526, name: 'Hypoxi Therapy' },
-  { id: 527, name: 'Iyashi Dome' },
-  { id: 530, name: 'Callanetics' },
-  { id: 531, name: 'Zen Swimming' },
-  { id: 532, name: 'Functional Training' },
-  { id: 534, name: 'Hydrating Facial' },
-  { id: 535, name: 'Foto Facial RF™ Skin Rejuvenation' },
-  { id: 536, name: 'Kayaking' },
-  { id: 537, name: "Men's Facial" },
-  { id: 539, name: 'Multi Polar Radio Frequency Treatment' },
-  { id: 540, name: 'Gel Nails' },
-  { id: 541, name: 'Judo' },
-  { id: 542, name: 'Biking' },
-  { id: 543, name: 'Paraffin Wax Treatments' },
-  { id: 544, name: 'Japanese Straightening' },
-  { id: 545, name: 'Male Waxing' },
-  { id: 546, name: 'Ionic Foot Bath' },
-  { id: 547, name: 'Roxy Beach Body Workout' },
-  { id: 548, name: 'Nalini Method' },
-  { id: 549, name: 'Hot Yoga' },
-  { id: 550, name: 'Teen Facials' },
-  { id: 555, name: 'Tooth Jewellery' },
-  { id: 556, name: 'Dermatology' },
-  { id: 557, name: 'TUG Breast Reconstruction' },
-  { id: 559, name: 'Chair Aerobics' },
-  { id: 560, name: 'HD Brows™' },
-  { id: 563, name: 'Bioresonance Therapy' },
-  { id: 564, name: 'UVB Photo-biological Stimulation ­therapy' },
-  { id: 565, name: 'Budokon' },
-  { id: 566, name: 'Exergaming' },
-  { id: 567, name: 'Gravity Training' },
-  { id: 571, name: 'Moxibustion' },
-  { id: 574, name: 'HypnoBirthing' },
-  { id: 575, name: 'Shamanic Healing' },
-  { id: 578, name: 'Nail Art' },
-  { id: 580, name: 'Cryolipolysis' },
-  { id: 582, name: 'Disco' },
-  { id: 583, name: 'Restorative Yoga' },
-  { id: 584, name: 'Neuro-skeletal Realignment Therapy' },
-  { id: 585, name: 'CrossFit' },
-  { id: 586, name: 'Mindfulness' },
-  { id: 588, name: 'Thought Field Therapy' },
-  { id: 589, name: 'Grief Recovery' },
-  { id: 590, name: 'Past Life Regression Therapy' },
-  { id: 591, name: 'Dorn Method' },
-  { id: 593, name: 'Herbal Compress Massage' },
-  { id: 594, name: 'Samba' },
-  { id: 595, name: 'Two Week Manicure' },
-  { id: 596, name: 'The Lightning Process' },
-  { id: 597, name: 'Bootcamp Workout' },
-  { id: 599, name: 'Sophrology' },
-  { id: 602, name: 'Snake Yoga' },
-  { id: 603, name: 'Universal Contour Wrap' },
-  { id: 605, name: 'Horse Riding' },
-  { id: 607, name: 'Trampolining' },
-  { id: 610, name: 'Rugby' },
-  { id: 612, name: 'No Needle Mesotherapy' },
-  { id: 613, name: 'BioMeridian Analysis' },
-  { id: 615, name: 'Jacobs Ladder' },
-  { id: 616, name: 'PowerBike' },
-  { id: 624, name: 'Ping Pong' },
-  { id: 626, name: 'Fertility Testing' },
-  { id: 628, name: 'Chicago Facelift' },
-  { id: 629, name: 'Shaolin Kung Fu' },
-  { id: 630, name: 'Health Consultations' },
-  { id: 632, name: 'Swing Dancing' },
-  { id: 635, name: 'The Rossiter System' },
-  { id: 636, name: 'Arvigo Therapy' },
-  { id: 638, name: 'Necklift' },
-  { id: 641, name: 'Biofeedback' },
-  { id: 643, name: 'Archery' },
-  { id: 644, name: 'Athletics' },
-  { id: 645, name: 'Badminton' },
-  { id: 646, name: 'Basketball' },
-  { id: 647, name: 'Volleyball' },
-  { id: 648, name: 'Diving' },
-  { id: 649, name: 'Gymnastics' },
-  { id: 650, name: 'Handball' },
-  { id: 651, name: 'Hockey' },
-  { id: 653, name: 'Water Polo' },
-  { id: 655, name: 'Rowing' },
-  { id: 656, name: 'Ionocinesis' },
-  { id: 661, name: 'Jazzercise' },
-  { id: 664, name: 'Skipping' },
-  { id: 667, name: 'Booiaka' },
-  { id: 668, name: 'Hippotherapy' },
-  { id: 671, name: 'Barefoot Running' },
-  { id: 673, name: 'AntiGravity Yoga' },
-  { id: 676, name: 'Aerial Silks' },
-  { id: 678, name: 'Sclerotherapy' },
-  { id: 679, name: 'Glow Yoga' },
-  { id: 680, name: 'Snow Boarding' },
-  { id: 684, name: 'Wedding Hair' },
-  { id: 685, name: 'The Emmett Technique' },
-  { id: 686, name: 'Post Natal Yoga' },
-  { id: 687, name: 'Callus Peel' },
-  { id: 689, name: 'Electrotherapy' },
-  { id: 691, name: 'Meridian Therapies' },
-  { id: 694, name: 'Bamboo Massage' },
-  { id: 698, name: 'Passive Exercise' },
-  { id: 702, name: 'NeuroSpa' },
-  { id: 704, name: 'Aqua Cycling' },
-  { id: 706, name: 'Eyelash Extensions' },
-  { id: 707, name: 'Eyelash Perming' },
-  { id: 708, name: 'LVL Lashes' },
-  { id: 709, name: 'Eyebrow and Eyelash Tinting' },
-  { id: 711, name: 'Afro Hairdressing' },
-  { id: 714, name: 'Balayage' },
-  { id: 715, name: 'Braids' },
-  { id: 716, name: "Men's Haircuts and Hairdressing" },
-  { id: 717, name: 'Makeover Experiences' },
-  { id: 718, name: 'Teeth Cleaning' },
-  { id: 719, name: 'Eyebrow Threading' },
-  { id: 720, name: 'Two Week Pedicure' },
-  { id: 721, name: 'Hair Styling and Updos' },
-  { id: 722, name: 'Body Hair Bleaching' },
-  { id: 724, name: 'Eyebrow Waxing' },
-  { id: 729, name: "Children's Haircuts" },
-  { id: 730, name: 'Couples Massage' },
-  { id: 731, name: "Men's Hair Colouring and Greys Coverage" },
-  { id: 732, name: 'Hair Salon Extras' },
-  { id: 733, name: 'Beauty Salon Extras' },
-  { id: 734, name: 'Hair Removal Extras' },
-  { id: 735, name: 'Natural Nail Strengthening' },
-  { id: 736, name: 'Nail Refill' },
-  { id: 737, name: 'Nail or Gel Polish Removal' },
-  { id: 739, name: 'Nail Salon Extras' },
-  { id: 740, name: 'Other Massages' },
-  { id: 741, name: 'PRP Therapy' },
-  { id: 742, name: 'Quiromassage' },
-  { id: 743, name: 'Oxygen Body Treatments' },
-  { id: 744, name: 'Bikini Waxing' },
-  { id: 745, name: 'Leg Waxing' },
-  { id: 746, name: 'Pressotherapy' },
-  { id: 747, name: 'Connective Tissue Massage' },
-  { id: 748, name: "Men's Brazilian Blow Dry" },
-  { id: 749, name: 'Chemical Straightening' },
-  { id: 750, name: 'Facial Waxing' },
-  { id: 751, name: "Ladies' Arm & Underarm Waxing" },
-  { id: 752, name: 'Microblading' },
-  { id: 753, name: 'Relaxing Massage' },
-  { id: 754, name: 'Lipo Treatments' },
-  { id: 755, name: 'Weave' },
-  { id: 756, name: 'Solar Nails' },
-  { id: 757, name: 'Acrylic Nail Extensions & Overlays' },
-  { id: 758, name: 'Radiofrequency Facial' },
-  { id: 759, name: 'Russian Volume Lashes' },
-  { id: 760, name: 'Hybrid Lashes' },
-  { id: 761, name: 'Party Lashes' },
-  { id: 762, name: 'Eyelash Extension Infills' },
-  { id: 763, name: 'Eyelash Extension Removal' },
-  { id: 764, name: 'Classic Lashes' },
-  { id: 765, name: 'Wedding Hair Trial' },
-  { id: 766, name: "Boys' Haircuts" },
-  { id: 767, name: "Girls' Haircuts" },
-  { id: 768, name: "Ladies' Organic Hair Colouring" },
-  { id: 769, name: "Men's Organic Hair Colouring" },
-  { id: 770, name: "Ladies' Ammonia-Free Hair Colouring" },
-  { id: 771, name: "Men's Ammonia-Free Hair Colouring" },
-  { id: 772, name: 'Fringe Trim' },
-  { id: 773, name: "Ladies' Hair Toner" },
-  { id: 774, name: "Ladies' Highlights" },
-  { id: 775, name: "Ladies' Full Head Highlights" },
-  { id: 776, name: "Ladies' Half Head Highlights" },
-  { id: 777, name: "Ladies' T-Section Highlights" },
-  { id: 778, name: "Ladies' Full Head Colouring" },
-  { id: 779, name: "Ladie's Root Colouring" },
-  { id: 780, name: "Ladies' Hair Bleaching" },
-  { id: 781, name: 'Hair Curling' },
-  { id: 782, name: "Men's Hair Conditioning & Scalp Treatments" },
-  { id: 783, name: 'Wigs' },
-  { id: 784, name: 'Afro Hair Extensions' },
-  { id: 785, name: 'Afro Braids' },
-  { id: 786, name: "Ladies' Afro Hair Colouring" },
-  { id: 787, name: 'Silk Press' },
-  { id: 788, name: "Men's Afro Haircuts" },
-  { id: 789, name: "Ladies' Afro Haircuts" },
-  { id: 790, name: "Ladies' Hair Glossing" },
-  { id: 791, name: "Men's Hair Bleaching" },
-  { id: 792, name: "Ladies' Dry Haircut" },
-  { id: 793, name: "Ladies' Restyle Haircut" },
-  { id: 794, name: 'Curly Blow Dry' },
-  { id: 795, name: "Men's Dry Haircut" },
-  { id: 796, name: 'Ombre Hair' },
-  { id: 797, name: 'Dip Dye' },
-  { id: 798, name: 'Curly Haircut' },
-  { id: 799, name: "Ladies' Semi-Permanent Hair Colouring" },
-  { id: 800, name: "Ladies' Haircut & Blow Dry" },
-  { id: 801, name: 'Colour Correction' },
-  { id: 802, name: 'Brow Lamination' },
-  { id: 803, name: 'Dipping Powder Nails' },
-  { id: 804, name: 'Ombré Nails' },
-  { id: 805, name: 'Japanese Manicure' },
-  { id: 806, name: 'Henna Brows' },
-  { id: 807, name: 'Deep Cleansing Facial' },
-  { id: 809, name: 'HIFU Facial' },
+// Maximum number of slides a single story sequence can hold
+const MAX_STORY_ITEMS = 10;
+
+// Title and description of each rule in the upload guidelines
+const GUIDELINES: [MessageKey, MessageKey][] = [
+  ['guidelines.vertical', 'guidelines.verticalBody'],
+  ['guidelines.quality', 'guidelines.qualityBody'],
+  ['guidelines.contact', 'guidelines.contactBody'],
+  ['guidelines.content', 'guidelines.contentBody'],
 ];
 
-function mapContentTypeToTreatment(contentType?: string): { id: number; name: string } | undefined {
-  if (!contentType) return undefined;
-  const normalized = contentType.trim().toLowerCase();
-  if (!normalized) return undefined;
+// Chosen from VITE_MODERATION_PROVIDER (our moderation proxy by default, or the local mock)
+const moderationProvider = getModerationProvider();
+const verdictThresholds = verdictThresholdsFromEnv();
+
+// Analyses run at most this many at a time (VITE_MODERATION_CONCURRENCY, default 2)
+const ANALYSIS_CONCURRENCY = Math.max(1, Math.floor(Number(import.meta.env.VITE_MODERATION_CONCURRENCY) || 2));
+const analysisQueue = createJobQueue(ANALYSIS_CONCURRENCY);
+
+// Partner-facing explanation of a failed analysis. The error's own message is
+// English and written for developers, so only its kind is used here.
+function analysisErrorMessage(err: unknown): MessageKey {
+  if (err instanceof ModerationRequestError) {
+    if (err.status === 429) return 'panel.error.busy';
+    if (err.status === 413) return 'panel.error.tooLarge';
+    if (err.status === 502 || err.status === 503 || err.status === 504) return 'panel.error.unavailable';
+    return 'panel.error.rejected';
+  }
+  // fetch rejects with a TypeError when the connection fails
+  if (err instanceof TypeError) return 'panel.error.offline';
+  return 'panel.errorFallback';
+}
 
-  // Exact match
-  const exact = TREATMENT_TYPES.find(t => t.name.toLowerCase() === normalized);
-  if (exact) return exact;
+// ─── Analysis Queue ───────────────────────────────────────────────────────────
 
-  // Partial match (either direction)
-  const partial = TREATMENT_TYPES.find(t => {
-    const n = t.name.toLowerCase();
-    return normalized.includes(n) || n.includes(normalized);
+// Marks `ids` as queued. Once everything else has finished, the old items drop
+// out of the header progress so it counts the new batch from zero.
+function queueForAnalysis(media: UploadedMedia[], ids: string[]): UploadedMedia[] {
+  const idle = !media.some(m => m.analysisState === 'queued' || m.analysisState === 'running');
+  return media.map(m => {
+    if (ids.includes(m.id)) return { ...m, status: 'analyzing', analysisState: 'queued', error: undefined };
+    if (idle && m.analysisState === 'done') return { ...m, analysisState: undefined };
+    return m;
   });
-  return partial;
 }
 
-// ─── AI Moderation Helpers ────────────────────────────────────────────────────
+// ─── Publish Helpers ──────────────────────────────────────────────────────────
 
-async function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+interface StoryPublishPayload {
+  slides: {
+    mediaId: string;
+    position: number;
+    type: UploadedMedia['type'];
+    treatmentId?: number;
+    treatmentName?: string;
+    treatmentSource?: TreatmentSource;
+    tags: string[];
+    /** Preprocessed image, or the original video. */
+    asset: File;
+  }[];
 }
 
-async function extractVideoFrame(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    const url = URL.createObjectURL(file);
-    video.src = url;
-    video.muted = true;
-    video.crossOrigin = 'anonymous';
-    video.addEventListener('loadeddata', () => {
-      video.currentTime = Math.min(1, video.duration * 0.1);
-    });
-    video.addEventListener('seeked', () => {
-      try {
-        const canvas = document.createElement('canvas');
-        canvas.width = video.videoWidth || 640;
-        canvas.height = video.videoHeight || 360;
-        canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
-        URL.revokeObjectURL(url);
-        resolve(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]);
-      } catch (e) {
-        reject(e);
-      }
-    });
-    video.addEventListener('error', reject);
-    video.load();
-  });
+// Slides are published in the order the partner arranged them in the modal
+function buildPublishPayload(media: UploadedMedia[]): StoryPublishPayload {
+  return {
+    slides: media.map((m, index) => ({
+      mediaId: m.id,
+      position: index + 1,
+      type: m.type,
+      treatmentId: m.treatmentId,
+      treatmentName: m.treatmentName,
+      treatmentSource: m.treatmentSource,
+      tags: m.tags ?? [],
+      asset: m.file,
+    })),
+  };
 }
 
-async function analyzeMediaWithClaude(file: File): Promise<UploadedMedia['aiAnalysis']> {
-  const isVideo = file.type.startsWith('video/');
-  const mediaType = isVideo ? 'image/jpeg' : file.type;
-  const base64Data = isVideo ? await extractVideoFrame(file) : await fileToBase64(file);
-  const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY as string | undefined;
-  const model =
-    (import.meta.env.VITE_ANTHROPIC_MODEL as string | undefined) ??
-    'claude-sonnet-4-20250514';
-
-  if (!apiKey) {
-    throw new Error('Missing VITE_ANTHROPIC_API_KEY. Add it to your .env and restart the dev server.');
-  }
-
-  const systemPrompt = `You are a professional content moderation AI for a beauty & wellness marketplace called Treatwell.
-Analyse the image and return a structured JSON response.
-
-Check for:
-1. Nudity or sexual content (any level)
-2. Profanity or offensive text visible in the image
-3. Violence or gore
-4. Drugs, weapons, or illegal items
-5. Contact information (phone numbers, emails, social media handles)
-6. Off-topic content — this platform only allows: haircuts, hair colouring, manicures, pedicures, facials, massages, makeup, hair styling, skincare, waxing, brow/lash treatments
-
-Respond ONLY with a valid JSON object — no markdown, no code fences, no extra text:
-{
-  "moderationStatus": "safe",
-  "moderationReasons": [],
-  "contentType": "e.g. Hair Colouring",
-  "tags": ["tag1", "tag2", "tag3"],
-  "confidence": 0.95,
-  "flaggedCategories": {
-    "nudity": false,
-    "profanity": false,
-    "violence": false,
-    "illegalItems": false,
-    "contactInfo": false,
-    "offTopicContent": false
-  }
+async function publishStory(_payload: StoryPublishPayload): Promise<void> {
+  // Simulated until the marketplace publish endpoint is available
+  await new Promise(resolve => setTimeout(resolve, 2000));
 }
 
-Set moderationStatus to "unsafe" and populate moderationReasons with clear user-friendly explanations if any category is flagged.`;
+// ─── File Drop Zone ───────────────────────────────────────────────────────────
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'anthropic-dangerous-direct-browser-access': 'true',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 1000,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: { type: 'base64', media_type: mediaType, data: base64Data },
-            },
-            {
-              type: 'text',
-              text: isVideo
-                ? 'This is a frame extracted from a video upload. Please moderate it.'
-                : 'Please moderate this image upload.',
-            },
-          ],
-        },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    if (response.status === 404) {
-      throw new Error(
-        `Moderation API error (404): model "${model}" not found for this API key. ` +
-        `Double-check VITE_ANTHROPIC_MODEL against the /v1/models list. Raw: ${err}`
-      );
-    }
-    throw new Error(`Moderation API error (${response.status}): ${err}`);
-  }
+function useFileDropZone(onFiles: (files: File[]) => void) {
+  const [isDragOver, setIsDragOver] = useState(false);
+  // dragenter/dragleave also fire for child elements, so count nesting depth
+  const dragDepth = useRef(0);
 
-  const data = await response.json();
-  const raw = data.content.map((b: { text?: string }) => b.text ?? '').join('');
-  const clean = raw.replace(/```json|```/g, '').trim();
-  const parsed = JSON.parse(clean);
+  const hasFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
 
-  return {
-    contentType: [parsed.contentType ?? 'Unknown'],
-    tags: parsed.tags ?? [],
-    moderationStatus: parsed.moderationStatus,
-    moderationReasons: parsed.moderationReasons ?? [],
-    confidence: parsed.confidence ?? 0.9,
-    flaggedCategories: parsed.flaggedCategories ?? {
-      nudity: false,
-      profanity: false,
-      violence: false,
-      illegalItems: false,
-      contactInfo: false,
-      offTopicContent: false,
+  const handlers = {
+    onDragEnter: (event: React.DragEvent<HTMLElement>) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth.current += 1;
+      setIsDragOver(true);
+    },
+    onDragOver: (event: React.DragEvent<HTMLElement>) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+    },
+    onDragLeave: (event: React.DragEvent<HTMLElement>) => {
+      if (!hasFiles(event)) return;
+      dragDepth.current = Math.max(dragDepth.current - 1, 0);
+      if (dragDepth.current === 0) setIsDragOver(false);
+    },
+    onDrop: (event: React.DragEvent<HTMLElement>) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth.current = 0;
+      setIsDragOver(false);
+      const files = Array.from(event.dataTransfer.files);
+      if (files.length > 0) onFiles(files);
     },
   };
+
+  return { isDragOver, handlers };
 }
 
 // ─── Main Component ───────────────────────────────────────────────────────────
 
 export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { t, rich } = useI18n();
   const [uploadedMedia, setUploadedMedia] = useState<UploadedMedia[]>([]);
   const [isPublishing, setIsPublishing] = useState(false);
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [publishedFromPreview, setPublishedFromPreview] = useState(false);
+  const [uploadNotice, setUploadNotice] = useState<string | null>(null);
+  // Files waiting for crop/trim before they join the sequence, shown one at a time
+  const [editQueue, setEditQueue] = useState<File[]>([]);
+  // Slots taken by files anywhere between the picker and the sequence: converting, waiting in
+  // the editor, or already a slide. Claimed synchronously, so overlapping drops can't both see
+  // the same free slots the way they would reading uploadedMedia from a stale render.
+  const claimedSlots = useRef(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight analyses by media id, so removing a slide or closing the modal can cancel them
+  const analysisControllers = useRef(new Map<string, AbortController>());
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    const file = files[0];
-    const isImage = file.type.startsWith('image/');
-    const isVideo = file.type.startsWith('video/');
-    if (!isImage && !isVideo) return;
-
-    // Clear existing media
-    uploadedMedia.forEach(media => URL.revokeObjectURL(media.url));
-
-    const url = URL.createObjectURL(file);
-    const newMedia: UploadedMedia = {
-      id: Math.random().toString(36).substring(7),
-      file,
-      url,
-      type: isImage ? 'image' : 'video',
-      status: 'analyzing',
-    };
-
-    setUploadedMedia([newMedia]);
-
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const moderateMedia = async (media: UploadedMedia) => {
+    analysisControllers.current.get(media.id)?.abort();
+    const controller = new AbortController();
+    analysisControllers.current.set(media.id, controller);
+    const { signal } = controller;
 
-    // Real AI moderation
     try {
-      const analysis = await analyzeMediaWithClaude(file);
+      // Files that break the advertised constraints never reach the model. Size and type were
+      // checked by startModeration on the file as picked, before images were re-encoded
+      const fileChecks =
+        media.preChecks?.filter(r => FILE_PRE_CHECK_RULES.includes(r.rule)) ?? (await runFilePreChecks(media.file));
+      const preChecks = hasBlockingFailure(fileChecks)
+        ? fileChecks
+        : [...fileChecks, ...(await runMediaPreChecks(media.file))];
+      signal.throwIfAborted();
+      if (hasBlockingFailure(preChecks)) {
+        setUploadedMedia(prev =>
+          prev.map(m => (m.id !== media.id ? m : { ...m, status: 'rejected', analysisState: 'done', preChecks }))
+        );
+        return;
+      }
+      setUploadedMedia(prev => prev.map(m => (m.id !== media.id ? m : { ...m, preChecks })));
+
+      const { analysis, fromCache } = await analysisQueue.enqueue(
+        async () => {
+          // Video frames are sampled once so OCR can run alongside the model call, not after it
+          const frames = media.file.type.startsWith('video/')
+            ? await buildModerationRequest(media.file, signal)
+            : undefined;
+          const [result, detections] = await Promise.all([
+            analyzeWithCache(moderationProvider, media.file, signal, frames),
+            scanForContactInfo(media.file, frames, signal),
+          ]);
+          // Detected contact details override the model, which can miss small or stylised text
+          return { ...result, analysis: mergeContactInfo(result.analysis, detections) };
+        },
+        {
+          signal,
+          onStart: () =>
+            setUploadedMedia(prev => prev.map(m => (m.id !== media.id ? m : { ...m, analysisState: 'running' }))),
+        }
+      );
       const primaryContentType = analysis?.contentType?.[0];
-      const mappedTreatment = mapContentTypeToTreatment(primaryContentType);
+      const treatmentSuggestions = rankTreatments(await getTreatmentCatalogue(), analysis);
+      const mappedTreatment = treatmentSuggestions[0]?.treatment;
+      const verdict = deriveVerdict(analysis, verdictThresholds);
+      const treatmentName = mappedTreatment?.name ?? primaryContentType;
+
+      // Borderline results go to a human instead of being decided automatically
+      signal.throwIfAborted();
+      if (verdict.verdict === 'review') {
+        await submitForReview({
+          id: media.id,
+          file: media.file,
+          fileName: media.file.name,
+          type: media.type,
+          aiAnalysis: analysis,
+          reasons: verdict.reasons,
+          treatmentName,
+        });
+        // The slide was removed while the item was being written, so removeMedia's withdrawal came too early
+        if (signal.aborted) {
+          await withdrawReviewItem(media.id);
+          return;
+        }
+      }
 
       setUploadedMedia(prev =>
         prev.map(m =>
-          m.id !== newMedia.id ? m : {
+          m.id !== media.id ? m : {
             ...m,
-            status: analysis!.moderationStatus === 'safe' ? 'approved' : 'rejected',
-            treatmentName: mappedTreatment?.name ?? primaryContentType,
+            status: verdict.verdict === 'approve' ? 'approved' : verdict.verdict === 'review' ? 'pending_review' : 'rejected',
+            analysisState: 'done',
+            verdict,
+            treatmentName,
             treatmentId: mappedTreatment?.id,
+            treatmentCategory: mappedTreatment?.category,
+            treatmentSource: mappedTreatment ? 'ai' : undefined,
+            treatmentSuggestions,
+            tags: curateTags(analysis.tags, mappedTreatment?.category),
             aiAnalysis: analysis,
+            fromCache,
           }
         )
       );
     } catch (err) {
+      // Cancelled analyses must not touch state: the slide may already be gone
+      if (isAbortError(err) || signal.aborted) return;
       setUploadedMedia(prev =>
         prev.map(m =>
-          m.id !== newMedia.id ? m : {
+          m.id !== media.id ? m : {
             ...m,
             status: 'error',
-            error: (err as Error).message,
+            analysisState: 'done',
+            error: analysisErrorMessage(err),
           }
         )
       );
+    } finally {
+      if (analysisControllers.current.get(media.id) === controller) analysisControllers.current.delete(media.id);
     }
   };
 
+  // Choosing the AI's own top match again counts as keeping the AI's choice
+  const changeTreatment = (id: string, treatment: Treatment) => {
+    setUploadedMedia(prev =>
+      prev.map(m =>
+        m.id !== id ? m : {
+          ...m,
+          treatmentId: treatment.id,
+          treatmentName: treatment.name,
+          treatmentCategory: treatment.category,
+          treatmentSource: treatment.id === m.treatmentSuggestions?.[0]?.treatment.id ? 'ai' : 'partner',
+          // Tags are limited to the category's vocabulary, so they follow the treatment
+          tags: recurateTags(m.tags ?? [], m.aiAnalysis?.tags ?? [], m.treatmentCategory, treatment.category),
+        }
+      )
+    );
+  };
+
+  const changeTags = (id: string, tags: string[]) => {
+    setUploadedMedia(prev => prev.map(m => (m.id !== id ? m : { ...m, tags })));
+  };
+
+  const retryAnalysis = (media: UploadedMedia) => {
+    setUploadedMedia(prev => queueForAnalysis(prev, [media.id]));
+    moderateMedia(media);
+  };
+
+  // Closing the modal cancels anything still in flight; those slides can be retried on reopen
+  useEffect(() => {
+    if (open) return;
+    const controllers = analysisControllers.current;
+    if (controllers.size === 0) return;
+    const cancelledIds = [...controllers.keys()];
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+    setUploadedMedia(prev =>
+      prev.map(m =>
+        cancelledIds.includes(m.id) && m.status === 'analyzing'
+          ? { ...m, status: 'error', analysisState: 'done', error: 'notice.cancelled' }
+          : m
+      )
+    );
+  }, [open]);
+
+  useEffect(() => {
+    const controllers = analysisControllers.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  // Sends a rejected item back to a reviewer with the partner's justification
+  const appealMedia = async (media: UploadedMedia, justification: string) => {
+    await submitAppeal(
+      {
+        id: media.id,
+        file: media.file,
+        fileName: media.file.name,
+        type: media.type,
+        aiAnalysis: media.aiAnalysis,
+        reasons: media.verdict?.reasons ?? [],
+        treatmentName: media.treatmentName,
+      },
+      justification
+    );
+    setUploadedMedia(prev =>
+      prev.map(m => (m.id !== media.id ? m : { ...m, status: 'appealed', appeal: { justification: justification.trim() } }))
+    );
+  };
+
+  const addFiles = async (files: File[]) => {
+    // HEIC/HEIF/AVIF photos are accepted too, and converted to JPEG below
+    const formats = await Promise.all(
+      files.map(file => (SUPPORTED_MEDIA_TYPES.includes(file.type) ? undefined : detectConvertibleFormat(file)))
+    );
+    const supported = files.filter((file, i) => SUPPORTED_MEDIA_TYPES.includes(file.type) || formats[i]);
+    const unsupported = files.filter((file, i) => !SUPPORTED_MEDIA_TYPES.includes(file.type) && !formats[i]);
+
+    // The sequence is capped, so anything beyond the remaining slots is dropped
+    const remainingSlots = Math.max(MAX_STORY_ITEMS - claimedSlots.current, 0);
+    const capped = supported.slice(0, remainingSlots);
+    claimedSlots.current += capped.length;
+
+    // Convert after capping so dropped files aren't decoded for nothing
+    const toConvert = capped.filter(file => formats[files.indexOf(file)]);
+    if (toConvert.length > 0) {
+      setUploadNotice(t('notice.converting', { count: toConvert.length }));
+    }
+    const conversions = await Promise.allSettled(
+      capped.map(file => {
+        const format = formats[files.indexOf(file)];
+        return format ? convertToSupportedImage(file, format) : file;
+      })
+    );
+    const accepted = conversions.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    claimedSlots.current -= capped.length - accepted.length;
+
+    const notices: string[] = [];
+    if (unsupported.length > 0) {
+      notices.push(
+        t('notice.unsupported', { count: unsupported.length, files: unsupported.map(f => `"${f.name}"`).join(', ') })
+      );
+    }
+    conversions.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn('Could not convert the image:', result.reason);
+        notices.push(t('notice.conversionFailed', { file: `"${capped[i].name}"` }));
+      }
+    });
+    if (supported.length > capped.length) {
+      notices.push(t('notice.overLimit', { max: MAX_STORY_ITEMS, count: supported.length - capped.length }));
+    }
+    setUploadNotice(notices.length > 0 ? notices.join(' ') : null);
+
+    if (accepted.length === 0) return;
+
+    // Landscape or over-length files go through the editor first
+    const editFlags = await Promise.all(accepted.map(needsEditing));
+    setEditQueue(prev => [...prev, ...accepted.filter((_, i) => editFlags[i])]);
+    await startModeration(accepted.filter((_, i) => !editFlags[i]));
+  };
+
+  const startModeration = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    // Re-encoding shrinks images and always yields a valid JPEG/WebP, so size and type are
+    // checked on the file as picked
+    const fileChecks = await Promise.all(files.map(runFilePreChecks));
+
+    // Images are re-encoded once here, so analysis, preview and publishing all use the same
+    // oriented, downscaled, metadata-free file; videos, and files already failing, keep the original
+    files = await Promise.all(
+      files.map((file, i) =>
+        file.type.startsWith('image/') && !hasBlockingFailure(fileChecks[i]) ? preprocessImage(file) : file
+      )
+    );
+
+    const newMedia: UploadedMedia[] = files.map((file, i) => ({
+      // Also the review queue key, so it must stay unique across sessions
+      id: crypto.randomUUID(),
+      file,
+      url: URL.createObjectURL(file),
+      type: file.type.startsWith('image/') ? 'image' : 'video',
+      status: 'analyzing',
+      preChecks: fileChecks[i],
+    }));
+
+    setUploadedMedia(prev => queueForAnalysis([...prev, ...newMedia], newMedia.map(m => m.id)));
+
+    // One request per slide, throttled by the analysis queue
+    await Promise.all(newMedia.map(moderateMedia));
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    const selected = Array.from(files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    await addFiles(selected);
+  };
+
+  const dropZone = useFileDropZone(files => addFiles(files));
+
+  // Pick up reviewer decisions for anything awaiting human review or appealed
+  const pendingReviewIds = uploadedMedia
+    .filter(m => m.status === 'pending_review' || m.status === 'appealed')
+    .map(m => m.id)
+    .join(',');
+  useEffect(() => {
+    if (!pendingReviewIds) return;
+    const ids = pendingReviewIds.split(',');
+
+    const syncDecisions = async () => {
+      const items = await Promise.all(ids.map(getReviewItem));
+      const decided = items.filter(item => item && item.status !== 'pending');
+      if (decided.length === 0) return;
+      setUploadedMedia(prev =>
+        prev.map(m => {
+          const item = decided.find(d => d!.id === m.id);
+          if (!item) return m;
+          if (m.status === 'appealed' && item.kind === 'appeal') {
+            return {
+              ...m,
+              status: item.status === 'approved' ? 'approved' : 'rejected',
+              review: { note: item.reviewerNote, decidedAt: item.decidedAt ?? Date.now() },
+              appeal: { ...m.appeal!, outcome: item.status === 'approved' ? 'overturned' : 'upheld' },
+            };
+          }
+          if (m.status !== 'pending_review') return m;
+          return {
+            ...m,
+            status: item.status === 'approved' ? 'approved' : 'rejected',
+            review: { note: item.reviewerNote, decidedAt: item.decidedAt ?? Date.now() },
+          };
+        })
+      );
+    };
+
+    // IndexedDB can fail (e.g. storage cleared mid-session); the next change notification retries
+    const sync = () => {
+      syncDecisions().catch(err => console.warn('Could not check for review decisions:', err));
+    };
+    sync();
+    return subscribeToReviewQueue(sync);
+  }, [pendingReviewIds]);
+
+  const finishEditing = (file?: File) => {
+    setEditQueue(prev => prev.slice(1));
+    if (!file) claimedSlots.current -= 1;
+    if (file) startModeration([file]);
+  };
+
   const removeMedia = (id: string) => {
+    analysisControllers.current.get(id)?.abort();
+    analysisControllers.current.delete(id);
+    claimedSlots.current -= 1;
+    // A slide awaiting review or appealed must not stay in the reviewers' queue once it's gone
+    withdrawReviewItem(id).catch(err => console.warn('Could not withdraw the review item:', err));
     setUploadedMedia(prev => {
       const media = prev.find(m => m.id === id);
       if (media) URL.revokeObjectURL(media.url);
@@ -811,29 +562,84 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
     });
   };
 
+  const moveMedia = (fromIndex: number, toIndex: number) => {
+    setUploadedMedia(prev => {
+      if (toIndex < 0 || toIndex >= prev.length || fromIndex === toIndex) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const approvedMedia = uploadedMedia.filter(m => m.status === 'approved');
+
   const handlePublish = async () => {
-    const approvedMedia = uploadedMedia.filter(m => m.status === 'approved');
     if (approvedMedia.length > 0) {
       setIsPublishing(true);
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await publishStory(buildPublishPayload(approvedMedia));
       setIsPublishing(false);
       setShowSuccessDialog(true);
     }
   };
 
+  const handlePreviewPublish = async () => {
+    await publishStory(buildPublishPayload(approvedMedia));
+    setPublishedFromPreview(true);
+  };
+
+  const handlePreviewClose = () => {
+    setShowPreview(false);
+    if (publishedFromPreview) {
+      setPublishedFromPreview(false);
+      handleSuccessClose();
+    }
+  };
+
   const handleSuccessClose = () => {
     setShowSuccessDialog(false);
+    claimedSlots.current -= uploadedMedia.length;
     setUploadedMedia([]);
     onOpenChange(false);
   };
 
-  const approvedCount = uploadedMedia.filter(m => m.status === 'approved').length;
+  const approvedCount = approvedMedia.length;
   const analyzingCount = uploadedMedia.filter(m => m.status === 'analyzing').length;
+  const analysisBatch = uploadedMedia.filter(m => m.analysisState);
+  const analysisDoneCount = analysisBatch.filter(m => m.analysisState === 'done').length;
+  const analysisQueuedCount = analysisBatch.filter(m => m.analysisState === 'queued').length;
+  const pendingReviewCount = uploadedMedia.filter(m => m.status === 'pending_review').length;
+  const appealedCount = uploadedMedia.filter(m => m.status === 'appealed').length;
+  const canAddMore = uploadedMedia.length + editQueue.length < MAX_STORY_ITEMS;
 
   if (!open) return null;
 
   return (
     <div className="fixed inset-0 bg-background z-50 flex flex-col">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={UPLOAD_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+
+      {/* Crop / Trim Editor */}
+      {editQueue.length > 0 && (
+        <MediaEditor
+          file={editQueue[0]}
+          remaining={editQueue.length - 1}
+          onApply={edited => finishEditing(edited)}
+          onUseOriginal={() => finishEditing(editQueue[0])}
+          onDiscard={() => finishEditing()}
+        />
+      )}
+
+      {/* Story Preview */}
+      {showPreview && (
+        <StoryPreview media={approvedMedia} onClose={handlePreviewClose} onPublish={handlePreviewPublish} />
+      )}
 
       {/* Success Dialog */}
       {showSuccessDialog && (
@@ -844,10 +650,10 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
                 <CheckCircle2 size={48} className="text-chart-2" />
               </div>
               <h2 className="mb-3" style={{ fontSize: '24px', fontWeight: 'var(--font-weight-medium)' }}>
-                🎉 Your Stories Are Going Live!
+                {t('success.title')}
               </h2>
               <p className="text-muted-foreground mb-6" style={{ fontSize: '16px', lineHeight: '1.6' }}>
-                Amazing! Your stories will appear on the Treatwell marketplace in the next few minutes and start attracting customers.
+                {t('success.body')}
               </p>
               <div className="bg-primary/10 border border-primary/30 rounded-[var(--radius-lg)] p-5 mb-6 text-left">
                 <div className="flex items-start gap-3">
@@ -856,15 +662,15 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
                   </div>
                   <div>
                     <h4 className="text-foreground mb-1.5" style={{ fontSize: '15px', fontWeight: 'var(--font-weight-medium)' }}>
-                      Track Your Success
+                      {t('success.trackTitle')}
                     </h4>
                     <p className="text-muted-foreground" style={{ fontSize: '14px', lineHeight: '1.5' }}>
-                      Visit the <strong className="text-foreground">Reports</strong> section to see how many customers viewed your stories and placed bookings. Watch your engagement grow! 📈
+                      {rich('success.trackBody', { reports: <strong className="text-foreground">{t('success.reports')}</strong> })}
                     </p>
                   </div>
                 </div>
               </div>
-              <Button onClick={handleSuccessClose} className="w-full" size="lg">Done</Button>
+              <Button onClick={handleSuccessClose} className="w-full" size="lg">{t('common.done')}</Button>
             </div>
           </div>
         </div>
@@ -879,14 +685,31 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
             </Button>
             <div>
               <h1 className="text-foreground" style={{ fontSize: '24px', fontWeight: 'var(--font-weight-semibold)' }}>
-                Story Showcase - Upload Content
+                {t('upload.title')}
               </h1>
             </div>
           </div>
-          <div className="flex gap-3">
-            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <div className="flex items-center gap-3">
+            {analyzingCount > 0 && analysisBatch.length > 0 && (
+              <div className="w-48 mr-2" role="status" aria-live="polite">
+                <div className="flex items-center gap-2 text-muted-foreground mb-1.5" style={{ fontSize: '13px' }}>
+                  <Loader2 size={14} className="animate-spin text-primary" />
+                  <span>
+                    {t('upload.progress', { done: analysisDoneCount, total: analysisBatch.length })}
+                    {analysisQueuedCount > 0 && ` · ${t('upload.progressQueued', { count: analysisQueuedCount })}`}
+                  </span>
+                </div>
+                <Progress value={(analysisDoneCount / analysisBatch.length) * 100} className="h-1.5" />
+              </div>
+            )}
+            <LocaleSwitcher />
+            <Button variant="outline" onClick={() => onOpenChange(false)}>{t('common.cancel')}</Button>
+            <Button variant="outline" onClick={() => setShowPreview(true)} disabled={approvedCount === 0 || analyzingCount > 0}>
+              <Eye size={16} />
+              {t('common.preview')}
+            </Button>
             <Button onClick={handlePublish} disabled={approvedCount === 0 || analyzingCount > 0}>
-              {isPublishing ? <Loader2 size={20} className="animate-spin" /> : 'Publish'}
+              {isPublishing ? <Loader2 size={20} className="animate-spin" /> : t('common.publish')}
             </Button>
           </div>
         </div>
@@ -905,11 +728,10 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
                 </div>
                 <div>
                   <h4 className="mb-2" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-                    Publish to Treatwell Marketplace
+                    {t('upload.introTitle')}
                   </h4>
                   <p className="text-muted-foreground" style={{ fontSize: '16px', lineHeight: '1.6' }}>
-                    Your content will be displayed to thousands of potential customers browsing Treatwell.
-                    High-quality stories help attract new customers and showcase your best work to people actively looking to book treatments.
+                    {t('upload.introBody')}
                   </p>
                 </div>
               </div>
@@ -922,14 +744,16 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
                 </div>
                 <div className="flex-1">
                   <h4 className="mb-2" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-                    AI-Powered Customer Matching
+                    {t('matching.title')}
                   </h4>
                   <p className="text-muted-foreground mb-3" style={{ fontSize: '16px', lineHeight: '1.6' }}>
-                    Your stories will be shown to customers most likely to book your services.
+                    {t('matching.body')}
                   </p>
                   <div className="bg-card/50 rounded-[var(--radius)] p-4">
                     <p className="text-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
-                      <span style={{ fontWeight: 'var(--font-weight-medium)' }}>Reach new customers</span> based on their preferences, location, and booking history.
+                      {rich('matching.reach', {
+                        highlight: <span style={{ fontWeight: 'var(--font-weight-medium)' }}>{t('matching.reachHighlight')}</span>,
+                      })}
                     </p>
                   </div>
                 </div>
@@ -937,44 +761,51 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
             </div>
           )}
 
+          {/* Upload Notice */}
+          {uploadNotice && (
+            <div role="alert" className="bg-destructive/10 border border-destructive/30 rounded-[var(--radius)] p-4 mb-6 flex items-start gap-3">
+              <AlertCircle size={20} className="text-destructive flex-shrink-0 mt-0.5" />
+              <p className="flex-1 text-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+                {uploadNotice}
+              </p>
+              <button onClick={() => setUploadNotice(null)} className="text-muted-foreground hover:text-foreground transition-colors" aria-label={t('common.dismiss')}>
+                <X size={18} />
+              </button>
+            </div>
+          )}
+
           {/* Conditional Layout */}
           {uploadedMedia.length === 0 ? (
             <div className="grid grid-cols-[1fr_420px] gap-10 mb-8">
               {/* Upload Area */}
               <div>
                 <div
-                  className="border-2 border-dashed border-border rounded-[var(--radius)] p-16 text-center cursor-pointer hover:border-primary transition-colors min-h-[400px] flex flex-col items-center justify-center"
+                  className={`border-2 border-dashed rounded-[var(--radius)] p-16 text-center cursor-pointer hover:border-primary transition-colors min-h-[400px] flex flex-col items-center justify-center ${
+                    dropZone.isDragOver ? 'border-primary bg-primary/5' : 'border-border'
+                  }`}
                   onClick={() => fileInputRef.current?.click()}
+                  {...dropZone.handlers}
                 >
-                  <Upload className="mx-auto mb-8 text-muted-foreground" size={72} />
+                  <Upload className={`mx-auto mb-8 ${dropZone.isDragOver ? 'text-primary' : 'text-muted-foreground'}`} size={72} />
                   <p className="mb-4" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-                    Click to upload or drag and drop
+                    {dropZone.isDragOver ? t('upload.dropActive') : t('upload.dropPrompt')}
                   </p>
                   <p className="text-muted-foreground" style={{ fontSize: '16px' }}>
-                    Images (PNG, JPG) or Videos (MP4, MOV, max 10 seconds) - Max 50MB
+                    {t('upload.formats')}
+                  </p>
+                  <p className="text-muted-foreground mt-2" style={{ fontSize: '14px' }}>
+                    {t('upload.limit', { max: MAX_STORY_ITEMS })}
                   </p>
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept="image/*,video/*"
-                    className="hidden"
-                    onChange={handleFileSelect}
-                  />
                 </div>
               </div>
 
               {/* Guidelines */}
               <div className="bg-card border border-border rounded-[var(--radius)] p-7 h-fit sticky top-8">
                 <h4 className="mb-6" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-                  📋 Upload Guidelines
+                  {t('guidelines.title')}
                 </h4>
                 <ul className="space-y-5" style={{ fontSize: '16px', lineHeight: '1.6' }}>
-                  {[
-                    ['Vertical format', 'Content must be in vertical/portrait orientation (9:16 ratio recommended)'],
-                    ['High quality', 'Upload clear, well-lit, high-resolution images and videos'],
-                    ['No contact information', "Don't include phone numbers, email addresses, or external social media handles"],
-                    ['Appropriate content only', 'No medical procedures, nudity, or sensitive content'],
-                  ].map(([title, desc], i) => (
+                  {GUIDELINES.map(([title, desc], i) => (
                     <li key={i} className="flex items-start gap-4">
                       <span
                         className="bg-primary text-primary-foreground rounded-full w-7 h-7 flex items-center justify-center flex-shrink-0 mt-0.5"
@@ -983,8 +814,8 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
                         {i + 1}
                       </span>
                       <div>
-                        <strong className="text-foreground">{title}:</strong>
-                        <span className="text-muted-foreground"> {desc}</span>
+                        <strong className="text-foreground">{t(title)}:</strong>
+                        <span className="text-muted-foreground"> {t(desc)}</span>
                       </div>
                     </li>
                   ))}
@@ -992,38 +823,71 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
               </div>
             </div>
           ) : (
-            <div className="grid grid-cols-[400px_1fr] gap-8 mb-8">
-              {/* Left: Media Preview */}
-              <div>
-                {uploadedMedia.map(media => (
-                  <CompactMediaPreview key={media.id} media={media} onRemove={() => removeMedia(media.id)} />
-                ))}
-              </div>
-
-              {/* Right: AI Analysis */}
-              <div>
-                {uploadedMedia.map(media => (
+            <div className="space-y-8 mb-8">
+              {/* Slide order */}
+              {uploadedMedia.length > 1 && (
+                <DndProvider backend={HTML5Backend}>
+                  <SlideOrderStrip media={uploadedMedia} onMove={moveMedia} />
+                </DndProvider>
+              )}
+
+              {uploadedMedia.map(media => (
+                <div key={media.id} className="grid grid-cols-[400px_1fr] gap-8">
+                  {/* Left: Media Preview */}
+                  <CompactMediaPreview media={media} onRemove={() => removeMedia(media.id)} />
+
+                  {/* Right: AI Analysis */}
                   <AIAnalysisPanel
-                    key={media.id}
                     media={media}
                     onRetryUpload={() => {
                       removeMedia(media.id);
                       fileInputRef.current?.click();
                     }}
+                    onAppeal={justification => appealMedia(media, justification)}
+                    onRetryAnalysis={() => retryAnalysis(media)}
+                    onTreatmentChange={treatment => changeTreatment(media.id, treatment)}
+                    onTagsChange={tags => changeTags(media.id, tags)}
                   />
-                ))}
-              </div>
+                </div>
+              ))}
+
+              {/* Add more slides */}
+              {canAddMore && (
+                <div className="grid grid-cols-[400px_1fr] gap-8">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className={`border-2 border-dashed rounded-[var(--radius)] p-8 flex flex-col items-center justify-center hover:border-primary hover:text-primary transition-colors ${
+                      dropZone.isDragOver ? 'border-primary bg-primary/5 text-primary' : 'border-border text-muted-foreground'
+                    }`}
+                    {...dropZone.handlers}
+                  >
+                    <Plus size={32} className="mb-2" />
+                    <span style={{ fontSize: '15px', fontWeight: 'var(--font-weight-medium)' }}>
+                      {dropZone.isDragOver ? t('upload.addMoreActive') : t('upload.addMore')}
+                    </span>
+                  </button>
+                </div>
+              )}
             </div>
           )}
+
+          {/* Past reviews and appeals */}
+          <UploadHistory />
         </div>
       </div>
 
       {/* Footer Status Bar */}
-      {approvedCount > 0 && (
+      {uploadedMedia.length > 0 && (
         <div className="border-t border-border bg-muted/30">
-          <div className="max-w-[1600px] mx-auto px-8 py-4">
+          <div className="max-w-[1600px] mx-auto px-8 py-4 flex items-center justify-between">
             <p className="text-muted-foreground" style={{ fontSize: '15px' }}>
-              {approvedCount} item{approvedCount !== 1 ? 's' : ''} ready to publish
+              {t('footer.ready', { count: approvedCount })}
+              {analyzingCount > 0 && ` · ${t('footer.analyzing', { count: analyzingCount })}`}
+              {pendingReviewCount > 0 && ` · ${t('footer.awaitingReview', { count: pendingReviewCount })}`}
+              {appealedCount > 0 && ` · ${t('footer.underAppeal', { count: appealedCount })}`}
+            </p>
+            <p className={canAddMore ? 'text-muted-foreground' : 'text-destructive'} style={{ fontSize: '15px', fontWeight: 'var(--font-weight-medium)' }}>
+              {t('footer.slides', { count: uploadedMedia.length, max: MAX_STORY_ITEMS })}
             </p>
           </div>
         </div>
@@ -1032,19 +896,69 @@ export function StoryUploadModal({ open, onOpenChange }: { open: boolean; onOpen
   );
 }
 
-// ─── CompactMediaPreview (unchanged from original) ────────────────────────────
+// ─── CompactMediaPreview ──────────────────────────────────────────────────────
 
 interface CompactMediaPreviewProps {
   media: UploadedMedia;
-  onRemove: () => void;
+  onRemove?: () => void;
+  /** Renders a small, label-free version for the slide order strip. */
+  thumbnail?: boolean;
 }
 
-function CompactMediaPreview({ media, onRemove }: CompactMediaPreviewProps) {
+function CompactMediaPreview({ media, onRemove, thumbnail }: CompactMediaPreviewProps) {
+  const { t } = useI18n();
+  // Natural size of the image, so detection boxes line up with its object-contain rendering
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const textDetections = media.type === 'image' ? media.aiAnalysis?.textDetections ?? [] : [];
+
+  if (thumbnail) {
+    return (
+      <div className="relative bg-card border border-border rounded-[var(--radius)] overflow-hidden w-[72px]">
+        <div className="aspect-[9/16] bg-muted-foreground/10 flex items-center justify-center relative">
+          {media.type === 'image' ? (
+            <img src={media.url} alt="" className="w-full h-full object-cover" draggable={false} />
+          ) : (
+            <video src={media.url} className="w-full h-full object-cover" muted />
+          )}
+          {media.status === 'analyzing' && (
+            <div className="absolute inset-0 bg-background/70 flex items-center justify-center">
+              {media.analysisState === 'queued' ? (
+                <Clock className="text-muted-foreground" size={20} />
+              ) : (
+                <Loader2 className="animate-spin text-primary" size={20} />
+              )}
+            </div>
+          )}
+          {media.status === 'pending_review' && (
+            <div className="absolute inset-0 bg-yellow-500/60 flex items-center justify-center text-white">
+              <UserCheck size={20} />
+            </div>
+          )}
+          {media.status === 'appealed' && (
+            <div className="absolute inset-0 bg-primary/60 flex items-center justify-center text-primary-foreground">
+              <Scale size={20} />
+            </div>
+          )}
+          {(media.status === 'rejected' || media.status === 'error') && (
+            <div className="absolute inset-0 bg-destructive/70 flex items-center justify-center text-destructive-foreground">
+              <AlertCircle size={20} />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="relative bg-card border border-border rounded-[var(--radius)] overflow-hidden group">
       <div className="aspect-[9/16] max-h-[400px] bg-muted-foreground/10 flex items-center justify-center relative">
         {media.type === 'image' ? (
-          <img src={media.url} alt="Upload preview" className="w-full h-full object-contain" />
+          <img
+            src={media.url}
+            alt={t('media.previewAlt')}
+            className="w-full h-full object-contain"
+            onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
         ) : (
           <video src={media.url} className="w-full h-full object-contain" muted />
         )}
@@ -1052,66 +966,491 @@ function CompactMediaPreview({ media, onRemove }: CompactMediaPreviewProps) {
         <div className="absolute top-3 left-3 bg-background/90 rounded-[var(--radius)] px-3 py-1.5 flex items-center gap-2">
           {media.type === 'image' ? <ImageIcon size={16} /> : <Video size={16} />}
           <span style={{ fontSize: '13px', fontWeight: 'var(--font-weight-medium)' }}>
-            {media.type === 'image' ? 'Image' : 'Video'}
+            {media.type === 'image' ? t('common.image') : t('common.video')}
           </span>
         </div>
 
-        <button
-          onClick={onRemove}
-          className="absolute top-3 right-3 bg-destructive text-destructive-foreground rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity z-20"
-        >
-          <X size={18} />
-        </button>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="absolute top-3 right-3 bg-destructive text-destructive-foreground rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity z-20"
+          >
+            <X size={18} />
+          </button>
+        )}
 
         {media.status === 'analyzing' && (
           <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center">
-            <Loader2 className="animate-spin mb-3 text-primary" size={40} />
-            <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>Analyzing...</span>
+            {media.analysisState === 'queued' ? (
+              <>
+                <Clock className="mb-3 text-muted-foreground" size={40} />
+                <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>{t('media.queued')}</span>
+              </>
+            ) : (
+              <>
+                <Loader2 className="animate-spin mb-3 text-primary" size={40} />
+                <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>{t('media.analyzing')}</span>
+              </>
+            )}
           </div>
         )}
 
-        {media.status === 'rejected' && (
-          <div className="absolute inset-0 bg-destructive/90 flex flex-col items-center justify-center text-destructive-foreground p-6 text-center z-10">
-            <AlertCircle size={48} className="mb-3" />
-            <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>Content Rejected</span>
+        {media.status === 'pending_review' && (
+          <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center p-6 text-center">
+            <UserCheck className="mb-3 text-yellow-600" size={40} />
+            <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>{t('media.awaitingReview')}</span>
           </div>
         )}
+
+        {media.status === 'appealed' && (
+          <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center p-6 text-center">
+            <Scale className="mb-3 text-primary" size={40} />
+            <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>{t('media.appealUnderReview')}</span>
+          </div>
+        )}
+
+        {imageSize && textDetections.length > 0 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none z-10"
+            viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+            preserveAspectRatio="xMidYMid meet"
+            role="img"
+            aria-label={t('media.contactFoundList', { items: textDetections.map(d => d.text).join(', ') })}
+          >
+            {textDetections.map((detection, index) => (
+              <rect
+                key={index}
+                x={detection.box.x * imageSize.width}
+                y={detection.box.y * imageSize.height}
+                width={detection.box.width * imageSize.width}
+                height={detection.box.height * imageSize.height}
+                rx={4}
+                className="fill-destructive/20 stroke-destructive"
+                strokeWidth={3}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        )}
+
+        {/* With detection boxes to show, the rejection is a banner so the image stays visible */}
+        {media.status === 'rejected' &&
+          (textDetections.length > 0 ? (
+            <div className="absolute bottom-0 inset-x-0 bg-destructive/90 flex items-center justify-center gap-2 text-destructive-foreground px-4 py-3 z-10">
+              <AlertCircle size={18} />
+              <span style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}>{t('media.contactFound')}</span>
+            </div>
+          ) : (
+            <div className="absolute inset-0 bg-destructive/90 flex flex-col items-center justify-center text-destructive-foreground p-6 text-center z-10">
+              <AlertCircle size={48} className="mb-3" />
+              <span style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>{t('media.rejected')}</span>
+            </div>
+          ))}
       </div>
     </div>
   );
 }
 
+// ─── SlideOrderStrip ──────────────────────────────────────────────────────────
+
+const SLIDE_DRAG_TYPE = 'story-slide';
+
+interface SlideDragItem {
+  id: string;
+  index: number;
+}
+
+interface SlideOrderStripProps {
+  media: UploadedMedia[];
+  onMove: (fromIndex: number, toIndex: number) => void;
+}
+
+function SlideOrderStrip({ media, onMove }: SlideOrderStripProps) {
+  const { t } = useI18n();
+  const slideRefs = useRef(new Map<string, HTMLDivElement>());
+  const pendingFocusId = useRef<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  // Reordering moves the DOM node, so keep keyboard focus on the slide that moved
+  useLayoutEffect(() => {
+    if (!pendingFocusId.current) return;
+    slideRefs.current.get(pendingFocusId.current)?.focus();
+    pendingFocusId.current = null;
+  }, [media]);
+
+  const handleKeyboardMove = (index: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= media.length) return;
+    pendingFocusId.current = media[index].id;
+    onMove(index, toIndex);
+    setAnnouncement(t('order.moved', { position: toIndex + 1, total: media.length }));
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-[var(--radius)] p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-muted-foreground" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+          {t('order.title')}
+        </div>
+        <p className="text-muted-foreground" style={{ fontSize: '13px' }}>
+          {t('order.hint')}
+        </p>
+      </div>
+      <div role="list" aria-label={t('order.listLabel')} className="flex gap-3 overflow-x-auto pb-1">
+        {media.map((item, index) => (
+          <SortableSlide
+            key={item.id}
+            media={item}
+            index={index}
+            total={media.length}
+            onMove={onMove}
+            onKeyboardMove={handleKeyboardMove}
+            registerRef={el => {
+              if (el) slideRefs.current.set(item.id, el);
+              else slideRefs.current.delete(item.id);
+            }}
+          />
+        ))}
+      </div>
+      <p aria-live="polite" className="sr-only">{announcement}</p>
+    </div>
+  );
+}
+
+interface SortableSlideProps {
+  media: UploadedMedia;
+  index: number;
+  total: number;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onKeyboardMove: (index: number, toIndex: number) => void;
+  registerRef: (el: HTMLDivElement | null) => void;
+}
+
+function SortableSlide({ media, index, total, onMove, onKeyboardMove, registerRef }: SortableSlideProps) {
+  const { t } = useI18n();
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  const [{ isDragging }, drag] = useDrag({
+    type: SLIDE_DRAG_TYPE,
+    item: (): SlideDragItem => ({ id: media.id, index }),
+    collect: monitor => ({ isDragging: monitor.isDragging() }),
+  });
+
+  const [, drop] = useDrop<SlideDragItem>({
+    accept: SLIDE_DRAG_TYPE,
+    hover(item, monitor) {
+      if (!ref.current || item.index === index) return;
+
+      // Only swap once the pointer crosses the horizontal midpoint of the target
+      const rect = ref.current.getBoundingClientRect();
+      const middleX = (rect.right - rect.left) / 2;
+      const pointer = monitor.getClientOffset();
+      if (!pointer) return;
+      const pointerX = pointer.x - rect.left;
+      if (item.index < index && pointerX < middleX) return;
+      if (item.index > index && pointerX > middleX) return;
+
+      onMove(item.index, index);
+      item.index = index;
+    },
+  });
+
+  drag(drop(ref));
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const targets: Record<string, number> = {
+      ArrowLeft: index - 1,
+      ArrowRight: index + 1,
+      Home: 0,
+      End: total - 1,
+    };
+    if (!(event.key in targets)) return;
+    event.preventDefault();
+    onKeyboardMove(index, targets[event.key]);
+  };
+
+  return (
+    <div
+      ref={el => {
+        ref.current = el;
+        registerRef(el);
+      }}
+      role="listitem"
+      tabIndex={0}
+      aria-label={t(media.type === 'image' ? 'order.slideImage' : 'order.slideVideo', { position: index + 1, total })}
+      aria-roledescription={t('order.roleDescription')}
+      onKeyDown={handleKeyDown}
+      className={`relative flex-shrink-0 cursor-grab rounded-[var(--radius)] outline-none focus-visible:ring-2 focus-visible:ring-primary ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <CompactMediaPreview media={media} thumbnail />
+      <span
+        className="absolute top-1 left-1 bg-background/90 rounded-full w-5 h-5 flex items-center justify-center"
+        style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}
+      >
+        {index + 1}
+      </span>
+      <GripVertical size={14} className="absolute bottom-1 right-1 text-white drop-shadow" />
+    </div>
+  );
+}
+
 // ─── AIAnalysisPanel (updated with real data + flag breakdown) ────────────────
 
 interface AIAnalysisPanelProps {
   media: UploadedMedia;
   onRetryUpload: () => void;
+  /** Rejects with a user-facing message if the appeal can't be submitted. */
+  onAppeal: (justification: string) => Promise<void>;
+  onRetryAnalysis: () => void;
+  onTreatmentChange: (treatment: Treatment) => void;
+  onTagsChange: (tags: string[]) => void;
 }
 
-const FLAG_LABELS: Record<string, string> = {
-  nudity: 'Nudity / Sexual content',
-  profanity: 'Profanity / Offensive text',
-  violence: 'Violence / Gore',
-  illegalItems: 'Drugs / Weapons / Illegal items',
-  contactInfo: 'Contact information',
-  offTopicContent: 'Off-topic content',
+const PRE_CHECK_BADGES: Record<PreCheckResult['status'], string> = {
+  pass: 'bg-chart-2/15 text-chart-2',
+  warn: 'bg-yellow-500/15 text-yellow-700',
+  fail: 'bg-destructive/15 text-destructive',
 };
 
-function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
+// Seconds of the clip where a category was flagged, e.g. [2, 7]
+function flaggedSeconds(media: UploadedMedia, category: FlaggedCategory): number[] {
+  const seconds = (media.aiAnalysis?.frameFlags ?? [])
+    .filter(f => f.categories.includes(category))
+    .map(f => Math.floor(f.timestamp));
+  return [...new Set(seconds)];
+}
+
+function FlagTimestamps({ media, category }: { media: UploadedMedia; category: FlaggedCategory }) {
+  const { t } = useI18n();
+  const seconds = flaggedSeconds(media, category);
+  if (seconds.length === 0) return null;
+  return (
+    <span className="text-muted-foreground ml-2" style={{ fontSize: '13px' }}>
+      {t('flag.at', { times: seconds.map(sec => t('flag.second', { seconds: sec })).join(', ') })}
+    </span>
+  );
+}
+
+function ReviewerNote({ review, appeal }: { review: NonNullable<UploadedMedia['review']>; appeal?: UploadedMedia['appeal'] }) {
+  const { t } = useI18n();
+  const title = t(
+    appeal?.outcome === 'overturned'
+      ? 'reviewNote.overturned'
+      : appeal?.outcome === 'upheld'
+        ? 'reviewNote.upheld'
+        : 'reviewNote.reviewed'
+  );
+  return (
+    <div className="bg-muted/50 rounded-[var(--radius)] p-5 flex items-start gap-3">
+      {appeal?.outcome ? (
+        <Scale size={18} className="text-muted-foreground flex-shrink-0 mt-0.5" />
+      ) : (
+        <UserCheck size={18} className="text-muted-foreground flex-shrink-0 mt-0.5" />
+      )}
+      <div>
+        <p className="text-foreground" style={{ fontSize: '15px', fontWeight: 'var(--font-weight-medium)' }}>
+          {title}
+        </p>
+        {review.note && (
+          <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+            {review.note}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CachedResultBadge({ analysis }: { analysis: ModerationAnalysis }) {
+  const { t } = useI18n();
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 bg-muted text-muted-foreground rounded-full px-2.5 py-0.5 flex-shrink-0"
+      style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}
+      title={
+        analysis.model
+          ? t('cache.titleWithModel', { model: analysis.model, version: analysis.promptVersion ?? '' })
+          : t('cache.title')
+      }
+    >
+      <Database size={12} />
+      {t('cache.badge')}
+    </span>
+  );
+}
+
+function AppealForm({ onAppeal }: { onAppeal: AIAnalysisPanelProps['onAppeal'] }) {
+  const { t, formatNumber } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [justification, setJustification] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onAppeal(justification);
+    } catch (err) {
+      if (!(err instanceof AppealError)) console.warn('Could not submit the appeal:', err);
+      setError(
+        err instanceof AppealError ? t(`appeal.error.${err.code}`, { max: MAX_APPEAL_LENGTH }) : t('appeal.error.failed')
+      );
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button size="sm" variant="ghost" onClick={() => setOpen(true)}>
+        <Scale size={16} />
+        {t('appeal.open')}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+        {t('appeal.intro')}
+      </p>
+      <Textarea
+        value={justification}
+        onChange={e => setJustification(e.target.value)}
+        maxLength={MAX_APPEAL_LENGTH}
+        placeholder={t('appeal.placeholder')}
+        aria-label={t('appeal.label')}
+        disabled={submitting}
+      />
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-muted-foreground" style={{ fontSize: '13px' }}>
+          {formatNumber(justification.length)} / {formatNumber(MAX_APPEAL_LENGTH)}
+        </span>
+        <div className="flex gap-3">
+          <Button size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={submitting}>
+            {t('common.cancel')}
+          </Button>
+          <Button size="sm" onClick={handleSubmit} disabled={submitting || justification.trim() === ''}>
+            {submitting && <Loader2 size={16} className="animate-spin" />}
+            {t('appeal.submit')}
+          </Button>
+        </div>
+      </div>
+      {error && (
+        <p role="alert" className="text-destructive" style={{ fontSize: '14px' }}>{error}</p>
+      )}
+    </div>
+  );
+}
+
+function PreCheckSection({ results }: { results: PreCheckResult[] }) {
+  const { t } = useI18n();
+  return (
+    <div>
+      <div className="text-muted-foreground mb-3" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        {t('preCheck.title')}
+      </div>
+      <div className="bg-card border border-border rounded-[var(--radius)] divide-y divide-border">
+        {results.map(result => (
+          <div key={result.rule} className="flex items-center justify-between gap-4 px-4 py-2.5">
+            <div>
+              <span style={{ fontSize: '14px' }}>{t(`preCheck.rule.${result.rule}`)}</span>
+              <p className="text-muted-foreground" style={{ fontSize: '13px', lineHeight: '1.5' }}>
+                {t(`preCheck.${result.code}`, result.params)}
+              </p>
+            </div>
+            <span
+              className={`rounded-full px-2.5 py-0.5 flex-shrink-0 ${PRE_CHECK_BADGES[result.status]}`}
+              style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}
+            >
+              {t(`preCheck.${result.status}`)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AIAnalysisPanel({ media, onRetryUpload, onAppeal, onRetryAnalysis, onTreatmentChange, onTagsChange }: AIAnalysisPanelProps) {
+  const { t, formatNumber } = useI18n();
+
+  if (media.status === 'analyzing' && media.analysisState === 'queued') {
+    return (
+      <div className="bg-card border border-border rounded-[var(--radius)] p-8 min-h-[400px] flex flex-col items-center justify-center">
+        <Clock className="mb-4 text-muted-foreground" size={48} />
+        <h4 className="mb-2" style={{ fontSize: '18px', fontWeight: 'var(--font-weight-medium)' }}>
+          {t('panel.queuedTitle')}
+        </h4>
+        <p className="text-muted-foreground text-center" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+          {t('panel.queuedBody', { count: ANALYSIS_CONCURRENCY })}
+        </p>
+      </div>
+    );
+  }
+
   if (media.status === 'analyzing') {
     return (
       <div className="bg-card border border-border rounded-[var(--radius)] p-8 min-h-[400px] flex flex-col items-center justify-center">
         <Loader2 className="animate-spin mb-4 text-primary" size={48} />
         <h4 className="mb-2" style={{ fontSize: '18px', fontWeight: 'var(--font-weight-medium)' }}>
-          AI Analysis in Progress
+          {t('panel.analyzingTitle')}
         </h4>
         <p className="text-muted-foreground text-center" style={{ fontSize: '15px', lineHeight: '1.6' }}>
-          Our AI is analyzing your content to ensure it meets our guidelines and to identify the best audience for your story.
+          {t('panel.analyzingBody')}
         </p>
       </div>
     );
   }
 
+  if (media.status === 'pending_review') {
+    return (
+      <div className="bg-card border border-yellow-500/50 rounded-[var(--radius)] p-8 space-y-6">
+        <div className="flex items-start gap-4">
+          <div className="w-12 h-12 bg-yellow-500/20 rounded-full flex items-center justify-center flex-shrink-0">
+            <UserCheck size={24} className="text-yellow-600" />
+          </div>
+          <div>
+            <h4 className="text-yellow-700 mb-1" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
+              {t('panel.reviewTitle')}
+            </h4>
+            <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+              {t('panel.reviewBody')}
+            </p>
+          </div>
+        </div>
+
+        {/* Pre-checks */}
+        {media.preChecks && <PreCheckSection results={media.preChecks} />}
+      </div>
+    );
+  }
+
+  if (media.status === 'appealed') {
+    return (
+      <div className="bg-card border border-primary/50 rounded-[var(--radius)] p-8 space-y-6">
+        <div className="flex items-start gap-4">
+          <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center flex-shrink-0">
+            <Scale size={24} className="text-primary" />
+          </div>
+          <div>
+            <h4 className="text-primary mb-1" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
+              {t('panel.appealedTitle')}
+            </h4>
+            <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+              {t('panel.appealedBody')}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-muted/50 rounded-[var(--radius)] p-5">
+          <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
+            <strong className="text-foreground">{t('panel.appealedExplanation')}</strong> {media.appeal?.justification}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (media.status === 'error') {
     return (
       <div className="bg-card border border-yellow-500/50 rounded-[var(--radius)] p-8">
@@ -1121,20 +1460,40 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
           </div>
           <div>
             <h4 className="text-yellow-700 mb-1" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-              Analysis Failed
+              {t('panel.errorTitle')}
             </h4>
             <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
-              {media.error ?? 'An unexpected error occurred. Please try again.'}
+              {t(media.error ?? 'panel.errorFallback')}
             </p>
           </div>
         </div>
+        <div className="flex gap-3">
+          <Button size="sm" onClick={onRetryAnalysis}>
+            <RotateCw size={16} />
+            {t('panel.retryAnalysis')}
+          </Button>
+          <Button size="sm" variant="outline" onClick={onRetryUpload}>
+            {t('panel.uploadDifferentFile')}
+          </Button>
+        </div>
       </div>
     );
   }
 
-  if (media.status === 'rejected' && media.aiAnalysis) {
-    const flags = media.aiAnalysis.flaggedCategories;
-    const triggeredFlags = Object.entries(FLAG_LABELS).filter(([key]) => flags[key as keyof typeof flags]);
+  if (media.status === 'rejected') {
+    const flags = media.aiAnalysis?.flaggedCategories;
+    const triggeredFlags = flags ? Object.entries(FLAG_LABELS).filter(([key]) => flags[key as keyof typeof flags]) : [];
+    const failedPreCheck = media.preChecks && hasBlockingFailure(media.preChecks);
+    // Reasons come from the flagged categories rather than the model's own wording, so they're always in the partner's language
+    const contactDetails = [
+      ...new Set((media.aiAnalysis?.textDetections ?? []).map(d => `${t(`contactKind.${d.kind}`)} "${d.text}"`)),
+    ];
+    const reasons = [
+      ...(media.verdict?.verdict === 'reject' ? media.verdict.flaggedCategories.map(category => t(`reason.${category}`)) : []),
+      ...(contactDetails.length > 0 ? [t('reason.contactDetails', { items: contactDetails.join(', ') })] : []),
+    ];
+    // Pre-check failures are objective, so only AI or reviewer decisions can be appealed, once
+    const canAppeal = !failedPreCheck && media.aiAnalysis && !media.appeal;
 
     return (
       <div className="bg-card border border-destructive/50 rounded-[var(--radius)] p-8 space-y-6">
@@ -1144,23 +1503,32 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
             <AlertCircle size={24} className="text-destructive" />
           </div>
           <div>
-            <h4 className="text-destructive mb-1" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-              Content Not Approved
-            </h4>
+            <div className="flex items-center gap-3 mb-1">
+              <h4 className="text-destructive" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
+                {t('panel.rejectedTitle')}
+              </h4>
+              {media.fromCache && media.aiAnalysis && <CachedResultBadge analysis={media.aiAnalysis} />}
+            </div>
             <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
-              Our AI detected issues with your uploaded content.
+              {t(failedPreCheck ? 'panel.rejectedPreCheck' : media.review ? 'panel.rejectedReviewer' : 'panel.rejectedAi')}
             </p>
           </div>
         </div>
 
+        {/* Pre-checks */}
+        {media.preChecks && <PreCheckSection results={media.preChecks} />}
+
+        {/* Reviewer decision */}
+        {media.review && <ReviewerNote review={media.review} appeal={media.appeal} />}
+
         {/* Rejection Reasons */}
-        {(media.aiAnalysis.moderationReasons?.length ?? 0) > 0 && (
+        {reasons.length > 0 && (
           <div className="bg-destructive/10 border border-destructive/30 rounded-[var(--radius-lg)] p-5">
             <h4 className="text-foreground mb-3" style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>
-              Rejection Reasons:
+              {t('panel.rejectionReasons')}
             </h4>
             <ul className="space-y-2">
-              {media.aiAnalysis.moderationReasons!.map((reason, index) => (
+              {reasons.map((reason, index) => (
                 <li key={index} className="flex items-start gap-3 text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
                   <span className="text-destructive mt-1" style={{ fontSize: '18px' }}>•</span>
                   <span>{reason}</span>
@@ -1174,14 +1542,17 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
         {triggeredFlags.length > 0 && (
           <div className="bg-card border border-border rounded-[var(--radius)] p-5">
             <div className="text-muted-foreground mb-3" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-              Flagged Categories
+              {t('panel.flaggedCategories')}
             </div>
             <div className="divide-y divide-border">
               {triggeredFlags.map(([key, label]) => (
                 <div key={key} className="flex items-center justify-between py-2.5">
-                  <span style={{ fontSize: '14px' }}>{label}</span>
+                  <span style={{ fontSize: '14px' }}>
+                    {t(label)}
+                    <FlagTimestamps media={media} category={key as FlaggedCategory} />
+                  </span>
                   <span className="bg-destructive/15 text-destructive rounded-full px-2.5 py-0.5" style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}>
-                    Flagged
+                    {t('flag.flagged')}
                   </span>
                 </div>
               ))}
@@ -1192,12 +1563,17 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
         <div className="bg-muted/50 rounded-[var(--radius)] p-5">
           <div className="space-y-4">
             <p className="text-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
-              Please upload a different picture or video that meets our guidelines.
+              {t('panel.rejectedGuidance')}
             </p>
             <Button size="sm" variant="outline" onClick={onRetryUpload}>
-              Upload a different image
+              {t('panel.uploadDifferentImage')}
             </Button>
           </div>
+          {canAppeal && (
+            <div className="border-t border-border mt-4 pt-4">
+              <AppealForm onAppeal={onAppeal} />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -1215,57 +1591,54 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
             <CheckCircle2 size={24} className="text-chart-2" />
           </div>
           <div>
-            <h4 className="text-chart-2 mb-1" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
-              Content Approved
-            </h4>
+            <div className="flex items-center gap-3 mb-1">
+              <h4 className="text-chart-2" style={{ fontSize: '20px', fontWeight: 'var(--font-weight-medium)' }}>
+                {t('panel.approvedTitle')}
+              </h4>
+              {media.fromCache && <CachedResultBadge analysis={media.aiAnalysis} />}
+            </div>
             <p className="text-muted-foreground" style={{ fontSize: '15px', lineHeight: '1.6' }}>
-              Your content passed all our checks and is ready to publish!
+              {t('panel.approvedBody')}
             </p>
           </div>
         </div>
 
+        {/* Reviewer decision */}
+        {media.review && <ReviewerNote review={media.review} appeal={media.appeal} />}
+
+        {/* Pre-checks */}
+        {media.preChecks && <PreCheckSection results={media.preChecks} />}
+
         {/* Content Type / Treatment Name */}
         <div>
           <div className="text-muted-foreground mb-2" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-            Treatment type detected (shown to customers)
-          </div>
-          <div className="bg-primary/10 border border-primary/20 rounded-[var(--radius)] px-4 py-3">
-            <span className="text-primary" style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>
-              {(() => {
-                const name = media.treatmentName || media.aiAnalysis.contentType[0];
-                if (!name) return '';
-                return media.treatmentId ? `#${media.treatmentId} – ${name}` : name;
-              })()}
-            </span>
+            {t('panel.treatmentType')}
           </div>
+          <TreatmentPicker
+            treatmentId={media.treatmentId}
+            treatmentName={media.treatmentName || media.aiAnalysis.contentType[0]}
+            source={media.treatmentSource}
+            suggestions={media.treatmentSuggestions ?? []}
+            onChange={onTreatmentChange}
+          />
         </div>
 
         {/* Tags */}
         <div>
           <div className="text-muted-foreground mb-2" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-            AI-Generated Tags
-          </div>
-          <div className="flex flex-wrap gap-2">
-            {media.aiAnalysis.tags.map((tag, i) => (
-              <span
-                key={i}
-                className="bg-muted text-foreground px-3 py-2 rounded-[var(--radius)]"
-                style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}
-              >
-                {tag}
-              </span>
-            ))}
+            {t('panel.tags')}
           </div>
+          <TagEditor tags={media.tags ?? []} category={media.treatmentCategory} onChange={onTagsChange} />
         </div>
 
         {/* Confidence Score */}
         <div>
           <div className="flex items-center justify-between mb-2">
             <div className="text-muted-foreground" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-              Model Confidence
+              {t('panel.confidence')}
             </div>
             <span className="text-chart-2" style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}>
-              {confidencePct}%
+              {formatNumber(confidencePct / 100, { style: 'percent' })}
             </span>
           </div>
           <div className="h-2 bg-muted rounded-full overflow-hidden">
@@ -1281,7 +1654,7 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
           <div className="flex items-center gap-2 mb-3">
             <Shield size={14} className="text-muted-foreground" />
             <div className="text-muted-foreground" style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-              Moderation Checks
+              {t('panel.moderationChecks')}
             </div>
           </div>
           <div className="bg-card border border-border rounded-[var(--radius)] divide-y divide-border">
@@ -1289,12 +1662,15 @@ function AIAnalysisPanel({ media, onRetryUpload }: AIAnalysisPanelProps) {
               const flagged = flags[key as keyof typeof flags];
               return (
                 <div key={key} className="flex items-center justify-between px-4 py-2.5">
-                  <span style={{ fontSize: '14px' }}>{label}</span>
+                  <span style={{ fontSize: '14px' }}>
+                    {t(label)}
+                    {flagged && <FlagTimestamps media={media} category={key as FlaggedCategory} />}
+                  </span>
                   <span
                     className={`rounded-full px-2.5 py-0.5 ${flagged ? 'bg-destructive/15 text-destructive' : 'bg-chart-2/15 text-chart-2'}`}
                     style={{ fontSize: '11px', fontWeight: 'var(--font-weight-medium)' }}
                   >
-                    {flagged ? 'Flagged' : 'Clear'}
+                    {t(flagged ? 'flag.flagged' : 'flag.clear')}
                   </span>
                 </div>
               );
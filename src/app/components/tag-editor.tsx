@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { MAX_TAGS, tagVocabulary, type TreatmentCategory } from '../lib/treatments';
+import { useI18n } from '../lib/i18n/provider';
+
+interface TagEditorProps {
+  tags: string[];
+  /** Category of the chosen treatment; its vocabulary is offered before the general tags. */
+  category?: TreatmentCategory;
+  onChange: (tags: string[]) => void;
+}
+
+// Removable tag chips plus an autocomplete limited to the controlled vocabulary
+export function TagEditor({ tags, category, onChange }: TagEditorProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const available = tagVocabulary(category).filter(tag => !tags.includes(tag));
+
+  const addTag = (tag: string) => {
+    onChange([...tags, tag]);
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1.5 bg-muted text-foreground pl-3 pr-2 py-2 rounded-[var(--radius)]"
+          style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}
+        >
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            aria-label={t('tags.remove', { tag })}
+          >
+            <X size={14} />
+          </button>
+        </span>
+      ))}
+
+      {tags.length === 0 && (
+        <p className="text-muted-foreground self-center" style={{ fontSize: '14px' }}>
+          {t('tags.empty')}
+        </p>
+      )}
+
+      {tags.length < MAX_TAGS && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="inline-flex items-center gap-1.5 border border-dashed border-border text-muted-foreground px-3 py-2 rounded-[var(--radius)] hover:border-primary hover:text-primary transition-colors"
+              style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}
+            >
+              <Plus size={14} />
+              {t('tags.add')}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-0" align="start">
+            <Command>
+              <CommandInput placeholder={t('tags.search')} />
+              <CommandList>
+                <CommandEmpty>{t('tags.noMatch')}</CommandEmpty>
+                <CommandGroup>
+                  {available.map(tag => (
+                    <CommandItem key={tag} value={tag} onSelect={() => addTag(tag)}>
+                      {tag}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
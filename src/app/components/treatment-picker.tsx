@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { Check, ChevronsUpDown, Sparkles, UserCheck } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { getTreatmentCatalogue, type Treatment, type TreatmentCatalogue, type TreatmentMatch } from '../lib/treatments';
+import { useI18n } from '../lib/i18n/provider';
+
+export type TreatmentSource = 'ai' | 'partner';
+
+interface TreatmentPickerProps {
+  treatmentId?: number;
+  treatmentName?: string;
+  /** Who chose the current value; shown next to it so partners know what they've checked. */
+  source?: TreatmentSource;
+  /** The matcher's ranked candidates, listed before the rest of the catalogue. */
+  suggestions: TreatmentMatch[];
+  onChange: (treatment: Treatment) => void;
+}
+
+// Searchable catalogue picker for the treatment shown to customers, so a wrong
+// AI guess can be corrected before it goes live
+export function TreatmentPicker({ treatmentId, treatmentName, source, suggestions, onChange }: TreatmentPickerProps) {
+  const { t, locale, formatNumber } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [catalogue, setCatalogue] = useState<TreatmentCatalogue | null>(null);
+
+  useEffect(() => {
+    getTreatmentCatalogue().then(setCatalogue);
+  }, []);
+
+  const suggestedIds = new Set(suggestions.map(match => match.treatment.id));
+  // Names are shown in the partner's language where the catalogue has one; the English name is what gets published
+  const localName = (treatment: Treatment) => catalogue?.localName(treatment, locale) ?? treatment.name;
+  const current = treatmentId !== undefined ? catalogue?.byId(treatmentId) : undefined;
+  const displayName = current ? localName(current) : treatmentName;
+  const select = (treatment: Treatment) => {
+    setOpen(false);
+    if (treatment.id !== treatmentId) onChange(treatment);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          role="combobox"
+          aria-expanded={open}
+          aria-label={t('treatment.label')}
+          className="w-full flex items-center justify-between gap-3 bg-primary/10 border border-primary/20 rounded-[var(--radius)] px-4 py-3 text-left hover:border-primary/40 transition-colors"
+        >
+          <span className="text-primary" style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>
+            {displayName ? (treatmentId ? `#${treatmentId} – ${displayName}` : displayName) : t('treatment.choose')}
+          </span>
+          <span className="flex items-center gap-3 flex-shrink-0">
+            {source && <TreatmentSourceBadge source={source} />}
+            <ChevronsUpDown size={16} className="text-muted-foreground" />
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput placeholder={t('treatment.search')} />
+          <CommandList>
+            <CommandEmpty>{t('treatment.empty')}</CommandEmpty>
+            {suggestions.length > 0 && (
+              <CommandGroup heading={t('treatment.suggestions')}>
+                {suggestions.map(({ treatment, score }) => (
+                  <TreatmentOption
+                    key={treatment.id}
+                    treatment={treatment}
+                    name={localName(treatment)}
+                    selected={treatment.id === treatmentId}
+                    onSelect={select}
+                    detail={t('treatment.match', { score: formatNumber(score, { style: 'percent' }) })}
+                  />
+                ))}
+              </CommandGroup>
+            )}
+            {catalogue && (
+              <CommandGroup heading={t('treatment.all')}>
+                {catalogue.treatments
+                  .filter(treatment => !suggestedIds.has(treatment.id))
+                  .map(treatment => (
+                    <TreatmentOption
+                      key={treatment.id}
+                      treatment={treatment}
+                      name={localName(treatment)}
+                      selected={treatment.id === treatmentId}
+                      onSelect={select}
+                    />
+                  ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface TreatmentOptionProps {
+  treatment: Treatment;
+  /** Display name in the partner's language. */
+  name: string;
+  selected: boolean;
+  onSelect: (treatment: Treatment) => void;
+  detail?: string;
+}
+
+function TreatmentOption({ treatment, name, selected, onSelect, detail }: TreatmentOptionProps) {
+  return (
+    <CommandItem
+      // Ids keep values unique; names and aliases are what partners search by
+      value={String(treatment.id)}
+      keywords={[treatment.name, ...treatment.aliases, ...Object.values(treatment.names)]}
+      onSelect={() => onSelect(treatment)}
+    >
+      <Check size={16} className={selected ? 'opacity-100' : 'opacity-0'} />
+      <span className="flex-1">{name}</span>
+      {detail && <span className="text-muted-foreground" style={{ fontSize: '12px' }}>{detail}</span>}
+    </CommandItem>
+  );
+}
+
+function TreatmentSourceBadge({ source }: { source: TreatmentSource }) {
+  const { t } = useI18n();
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 bg-muted text-muted-foreground"
+      style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}
+    >
+      {source === 'ai' ? <Sparkles size={12} /> : <UserCheck size={12} />}
+      {t(source === 'ai' ? 'treatment.chosenByAi' : 'treatment.chosenByPartner')}
+    </span>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { History, Scale, UserCheck, ChevronDown, AlertCircle } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { listReviewItems, subscribeToReviewQueue, type ReviewItem } from '../lib/review-queue';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../lib/i18n/provider';
+
+// Outcome wording from the partner's point of view
+function describeOutcome(item: ReviewItem): { label: MessageKey; className: string } {
+  if (item.status === 'pending') {
+    return item.kind === 'appeal'
+      ? { label: 'history.appealPending', className: 'bg-primary/15 text-primary' }
+      : { label: 'history.reviewPending', className: 'bg-yellow-500/15 text-yellow-700' };
+  }
+  if (item.kind === 'appeal') {
+    return item.status === 'approved'
+      ? { label: 'history.appealApproved', className: 'bg-chart-2/15 text-chart-2' }
+      : { label: 'history.appealRejected', className: 'bg-destructive/15 text-destructive' };
+  }
+  return item.status === 'approved'
+    ? { label: 'history.approved', className: 'bg-chart-2/15 text-chart-2' }
+    : { label: 'history.rejected', className: 'bg-destructive/15 text-destructive' };
+}
+
+// Partner-facing history of uploads that went to a human, including appeals and their outcomes
+export function UploadHistory() {
+  const { t, formatDate, formatNumber } = useI18n();
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const load = () => {
+    listReviewItems()
+      .then(result => {
+        setItems(result);
+        setLoadFailed(false);
+      })
+      .catch(err => {
+        console.warn('Could not load the review history:', err);
+        setLoadFailed(true);
+      });
+  };
+
+  useEffect(() => {
+    load();
+    return subscribeToReviewQueue(load);
+  }, []);
+
+  if (loadFailed) {
+    return (
+      <div
+        role="alert"
+        className="flex items-center justify-between gap-4 bg-destructive/10 border border-destructive/30 rounded-[var(--radius)] px-6 py-4"
+      >
+        <span className="flex items-center gap-2 text-destructive" style={{ fontSize: '14px' }}>
+          <AlertCircle size={16} className="flex-shrink-0" />
+          {t('history.loadFailed')}
+        </span>
+        <button
+          type="button"
+          onClick={load}
+          className="text-primary hover:underline flex-shrink-0"
+          style={{ fontSize: '14px', fontWeight: 'var(--font-weight-medium)' }}
+        >
+          {t('history.retry')}
+        </button>
+      </div>
+    );
+  }
+
+  if (items.length === 0) return null;
+
+  return (
+    <Collapsible className="bg-card border border-border rounded-[var(--radius)]">
+      <CollapsibleTrigger className="w-full flex items-center justify-between px-6 py-4 group">
+        <span className="flex items-center gap-2" style={{ fontSize: '16px', fontWeight: 'var(--font-weight-medium)' }}>
+          <History size={18} className="text-muted-foreground" />
+          {t('history.title')}
+          <span className="text-muted-foreground" style={{ fontSize: '14px' }}>({formatNumber(items.length)})</span>
+        </span>
+        <ChevronDown size={18} className="text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="divide-y divide-border border-t border-border">
+          {items.map(item => {
+            const outcome = describeOutcome(item);
+            return (
+              <li key={item.id} className="flex items-start justify-between gap-4 px-6 py-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  {item.kind === 'appeal' ? (
+                    <Scale size={16} className="text-muted-foreground flex-shrink-0 mt-1" />
+                  ) : (
+                    <UserCheck size={16} className="text-muted-foreground flex-shrink-0 mt-1" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="truncate" style={{ fontSize: '15px' }}>{item.fileName}</p>
+                    <p className="text-muted-foreground" style={{ fontSize: '13px' }}>
+                      {formatDate(item.decidedAt ?? item.submittedAt)}
+                      {item.reviewerNote && ` · “${item.reviewerNote}”`}
+                    </p>
+                  </div>
+                </div>
+                <span
+                  className={`rounded-full px-2.5 py-0.5 flex-shrink-0 ${outcome.className}`}
+                  style={{ fontSize: '12px', fontWeight: 'var(--font-weight-medium)' }}
+                >
+                  {t(outcome.label)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,128 @@
+// Message catalogues and locale-aware formatting for the partner-facing UI.
+// English is the source catalogue: its keys define MessageKey, and every other
+// catalogue must provide all of them, so a missing translation fails the
+// type-check instead of showing up in production.
+
+import { format, type Locale as DateFnsLocale } from 'date-fns';
+import { enGB, de, fr, es, it, nl } from 'date-fns/locale';
+import { en } from './messages/en';
+import { de as deMessages } from './messages/de';
+import { fr as frMessages } from './messages/fr';
+import { es as esMessages } from './messages/es';
+import { it as itMessages } from './messages/it';
+import { nl as nlMessages } from './messages/nl';
+
+export type Locale = 'en-GB' | 'de-DE' | 'fr-FR' | 'es-ES' | 'it-IT' | 'nl-NL';
+
+export const DEFAULT_LOCALE: Locale = 'en-GB';
+
+/** Supported locales with their names in their own language, for the switcher. */
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'en-GB', label: 'English' },
+  { locale: 'de-DE', label: 'Deutsch' },
+  { locale: 'fr-FR', label: 'Français' },
+  { locale: 'es-ES', label: 'Español' },
+  { locale: 'it-IT', label: 'Italiano' },
+  { locale: 'nl-NL', label: 'Nederlands' },
+];
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+type CatalogueKey = keyof typeof en;
+
+/** A message id. Plural messages are stored as `key_one`, `key_other`… and looked up by their base key. */
+export type MessageKey = CatalogueKey extends infer K
+  ? K extends `${infer Base}_${PluralCategory}`
+    ? Base
+    : K
+  : never;
+
+/** A complete catalogue for one locale. */
+export type Messages = Record<CatalogueKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Locale, Messages> = {
+  'en-GB': en,
+  'de-DE': deMessages,
+  'fr-FR': frMessages,
+  'es-ES': esMessages,
+  'it-IT': itMessages,
+  'nl-NL': nlMessages,
+};
+
+const DATE_LOCALES: Record<Locale, DateFnsLocale> = {
+  'en-GB': enGB,
+  'de-DE': de,
+  'fr-FR': fr,
+  'es-ES': es,
+  'it-IT': it,
+  'nl-NL': nl,
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(({ locale }) => locale === value);
+}
+
+/**
+ * Picks the best supported locale for a list of BCP 47 tags, such as
+ * navigator.languages: an exact match first, then the same language in
+ * another region ("de-AT" → "de-DE"), then the default.
+ */
+export function resolveLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    const exact = LOCALES.find(({ locale }) => locale.toLowerCase() === tag.toLowerCase());
+    if (exact) return exact.locale;
+    const language = tag.toLowerCase().split('-')[0];
+    const sameLanguage = LOCALES.find(({ locale }) => locale.toLowerCase().split('-')[0] === language);
+    if (sameLanguage) return sameLanguage.locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+function lookup(locale: Locale, key: string): string | undefined {
+  return (CATALOGUES[locale] as Record<string, string>)[key] ?? (en as Record<string, string>)[key];
+}
+
+// Plural forms are chosen by the `count` param, falling back to the `other` form
+function resolveMessage(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  if (typeof params?.count === 'number') {
+    const category = new Intl.PluralRules(locale).select(params.count);
+    const plural = lookup(locale, `${key}_${category}`) ?? lookup(locale, `${key}_other`);
+    if (plural !== undefined) return plural;
+  }
+  return lookup(locale, key) ?? key;
+}
+
+/** Splits a message into literal text and `{name}` placeholders, in order. */
+export function parseMessage(message: string): { text?: string; param?: string }[] {
+  return message
+    .split(/(\{\w+\})/)
+    .filter(part => part !== '')
+    .map(part => (/^\{\w+\}$/.test(part) ? { param: part.slice(1, -1) } : { text: part }));
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+/** Formats with a date-fns pattern in the locale's conventions; the default is date and time, e.g. "19 Oct 2026, 14:05". */
+export function formatDate(locale: Locale, date: Date | number, pattern = 'PPp'): string {
+  return format(date, pattern, { locale: DATE_LOCALES[locale] });
+}
+
+/** Looks up `key` and fills in its params. Numbers are formatted for the locale. */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  return parseMessage(resolveMessage(locale, key, params))
+    .map(({ text, param }) => {
+      if (param === undefined) return text;
+      const value = params?.[param];
+      if (value === undefined) return `{${param}}`;
+      return typeof value === 'number' ? formatNumber(locale, value) : value;
+    })
+    .join('');
+}
+
+/** The raw message for `key`, for callers that render placeholders themselves. */
+export function messageFor(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  return resolveMessage(locale, key, params);
+}
@@ -0,0 +1,246 @@
+import type { Messages } from '../index';
+
+export const de: Messages = {
+  'locale.label': 'Sprache',
+
+  'common.cancel': 'Abbrechen',
+  'common.preview': 'Vorschau',
+  'common.publish': 'Veröffentlichen',
+  'common.done': 'Fertig',
+  'common.dismiss': 'Schließen',
+  'common.image': 'Bild',
+  'common.video': 'Video',
+
+  'success.title': '🎉 Deine Stories gehen live!',
+  'success.body': 'Super! Deine Stories erscheinen in den nächsten Minuten auf dem Treatwell-Marktplatz und ziehen neue Kund:innen an.',
+  'success.trackTitle': 'Verfolge deinen Erfolg',
+  'success.trackBody': 'Im Bereich {reports} siehst du, wie viele Kund:innen deine Stories angesehen und gebucht haben. Sieh zu, wie dein Engagement wächst! 📈',
+  'success.reports': 'Berichte',
+
+  'matching.title': 'KI-gestütztes Kunden-Matching',
+  'matching.body': 'Deine Stories werden den Kund:innen gezeigt, die deine Leistungen am ehesten buchen.',
+  'matching.reach': '{highlight} – passend zu ihren Vorlieben, ihrem Standort und ihren bisherigen Buchungen.',
+  'matching.reachHighlight': 'Erreiche neue Kund:innen',
+
+  'upload.title': 'Story Showcase – Inhalte hochladen',
+  'upload.progress': '{done} von {total} analysiert',
+  'upload.progressQueued': '{count} in der Warteschlange',
+  'upload.introTitle': 'Auf dem Treatwell-Marktplatz veröffentlichen',
+  'upload.introBody': 'Deine Inhalte werden Tausenden potenziellen Kund:innen auf Treatwell angezeigt. Hochwertige Stories helfen dir, neue Kund:innen zu gewinnen, und zeigen deine beste Arbeit Menschen, die gerade eine Behandlung buchen möchten.',
+  'upload.dropPrompt': 'Zum Hochladen klicken oder per Drag & Drop ablegen',
+  'upload.dropActive': 'Zum Hochladen ablegen',
+  'upload.formats': 'Bilder (JPG, PNG, WebP, HEIC) oder Videos (MP4, MOV, max. 10 Sekunden) – max. 50 MB',
+  'upload.limit': 'Wähle mehrere Dateien aus, um eine Story mit bis zu {max} Slides zu erstellen',
+  'upload.addMore': 'Weitere Slides hinzufügen',
+  'upload.addMoreActive': 'Zum Hinzufügen ablegen',
+
+  'guidelines.title': '📋 Richtlinien für Uploads',
+  'guidelines.vertical': 'Hochformat',
+  'guidelines.verticalBody': 'Inhalte müssen im Hochformat sein (empfohlen: 9:16)',
+  'guidelines.quality': 'Hohe Qualität',
+  'guidelines.qualityBody': 'Lade scharfe, gut ausgeleuchtete und hochauflösende Bilder und Videos hoch',
+  'guidelines.contact': 'Keine Kontaktdaten',
+  'guidelines.contactBody': 'Keine Telefonnummern, E-Mail-Adressen oder externen Social-Media-Profile',
+  'guidelines.content': 'Nur angemessene Inhalte',
+  'guidelines.contentBody': 'Keine medizinischen Eingriffe, Nacktheit oder heiklen Inhalte',
+
+  'notice.converting_one': '{count} Foto wird in JPG umgewandelt …',
+  'notice.converting_other': '{count} Fotos werden in JPG umgewandelt …',
+  'notice.unsupported_one': '{files} ist kein unterstütztes Dateiformat. Lade JPG-, PNG-, WebP- oder HEIC-Bilder oder MP4- bzw. MOV-Videos hoch.',
+  'notice.unsupported_other': '{files} sind keine unterstützten Dateiformate. Lade JPG-, PNG-, WebP- oder HEIC-Bilder oder MP4- bzw. MOV-Videos hoch.',
+  'notice.overLimit_one': 'Eine Story kann höchstens {max} Slides enthalten, daher wurde {count} Datei nicht hinzugefügt.',
+  'notice.overLimit_other': 'Eine Story kann höchstens {max} Slides enthalten, daher wurden {count} Dateien nicht hinzugefügt.',
+  'notice.cancelled': 'Die Analyse wurde abgebrochen, weil das Upload-Fenster geschlossen wurde.',
+  'notice.conversionFailed': '{file} konnte in diesem Browser nicht umgewandelt werden. Bitte exportiere die Datei als JPG und versuche es erneut.',
+
+  'footer.ready_one': '{count} Element bereit zur Veröffentlichung',
+  'footer.ready_other': '{count} Elemente bereit zur Veröffentlichung',
+  'footer.analyzing': '{count} in Analyse',
+  'footer.awaitingReview': '{count} warten auf Prüfung',
+  'footer.underAppeal': '{count} im Einspruch',
+  'footer.slides': '{count} / {max} Slides',
+
+  'media.previewAlt': 'Vorschau des Uploads',
+  'media.queued': 'In der Warteschlange',
+  'media.analyzing': 'Wird analysiert …',
+  'media.awaitingReview': 'Wartet auf manuelle Prüfung',
+  'media.appealUnderReview': 'Einspruch wird geprüft',
+  'media.rejected': 'Inhalt abgelehnt',
+  'media.contactFound': 'Kontaktdaten gefunden',
+  'media.contactFoundList': 'Kontaktdaten gefunden: {items}',
+
+  'order.title': 'Reihenfolge der Slides',
+  'order.hint': 'Zum Sortieren ziehen oder einen Slide auswählen und die Pfeiltasten verwenden',
+  'order.listLabel': 'Story-Slides',
+  'order.moved': 'Slide an Position {position} von {total} verschoben',
+  'order.slideImage': 'Slide {position} von {total}, Bild',
+  'order.slideVideo': 'Slide {position} von {total}, Video',
+  'order.roleDescription': 'sortierbarer Slide',
+
+  'flag.nudity': 'Nacktheit / sexuelle Inhalte',
+  'flag.profanity': 'Vulgäre / beleidigende Texte',
+  'flag.violence': 'Gewalt / Blut',
+  'flag.illegalItems': 'Drogen / Waffen / illegale Gegenstände',
+  'flag.contactInfo': 'Kontaktdaten',
+  'flag.offTopicContent': 'Themenfremde Inhalte',
+  'flag.flagged': 'Markiert',
+  'flag.clear': 'Unbedenklich',
+  'flag.at': 'bei {times}',
+  'flag.second': '{seconds} s',
+
+  'reason.nudity': 'Stories dürfen keine Nacktheit oder sexuellen Inhalte zeigen. Bei Körperbehandlungen müssen Intimbereiche bedeckt bleiben.',
+  'reason.profanity': 'Stories dürfen keine Schimpfwörter oder beleidigende Sprache enthalten, auch nicht auf Schildern oder Produkten.',
+  'reason.violence': 'Stories dürfen keine Gewalt, kein Blut und keine drastischen Verletzungen zeigen.',
+  'reason.illegalItems': 'Stories dürfen keine Drogen, Waffen oder anderen illegalen Gegenstände zeigen.',
+  'reason.contactInfo': 'Stories dürfen keine Telefonnummern, E-Mail-Adressen, Websites oder Social-Media-Profile enthalten. Kund:innen buchen über Treatwell.',
+  'reason.offTopicContent': 'Stories müssen eine Behandlung, ein Ergebnis oder einen Salon aus einer der Kategorien auf Treatwell zeigen.',
+  'reason.contactDetails': 'Sichtbare Kontaktdaten: {items}.',
+
+  'contactKind.phone': 'Telefonnummer',
+  'contactKind.email': 'E-Mail-Adresse',
+  'contactKind.url': 'Website',
+  'contactKind.handle': 'Social-Media-Profil',
+
+  'preCheck.title': 'Anforderungen an Uploads',
+  'preCheck.pass': 'OK',
+  'preCheck.warn': 'Hinweis',
+  'preCheck.fail': 'Nicht erfüllt',
+  'preCheck.rule.fileSize': 'Dateigröße',
+  'preCheck.rule.fileType': 'Dateiformat',
+  'preCheck.rule.duration': 'Videolänge',
+  'preCheck.rule.resolution': 'Auflösung',
+  'preCheck.rule.aspectRatio': 'Seitenverhältnis',
+  'preCheck.fileSize.ok': '{size} MB (max. 50 MB)',
+  'preCheck.fileSize.tooLarge': '{size} MB überschreitet das Limit von 50 MB.',
+  'preCheck.fileType.image': 'JPG-/PNG-/WebP-Bild',
+  'preCheck.fileType.video': 'MP4-/MOV-Video',
+  'preCheck.fileType.invalid': 'Diese Datei ist keine gültige JPG-, PNG-, WebP-, MP4- oder MOV-Datei.',
+  'preCheck.duration.ok': '{duration} s (max. {max} s)',
+  'preCheck.duration.tooLong': '{duration} s ist länger als das Limit von {max} Sekunden.',
+  'preCheck.duration.unknown': 'Die Länge des Videos konnte nicht ermittelt werden.',
+  'preCheck.resolution.ok': '{dimensions}',
+  'preCheck.resolution.low': '{dimensions} könnte unscharf wirken (empfohlen: ab {recommended} px).',
+  'preCheck.resolution.tooSmall': '{dimensions} ist zu klein (mindestens {min} px an der kurzen Seite).',
+  'preCheck.resolution.unreadableImage': 'Dieses Bild kann dein Browser nicht lesen.',
+  'preCheck.resolution.unreadableVideo': 'Dieses Video kann dein Browser nicht lesen.',
+  'preCheck.aspectRatio.ok': '9:16 Hochformat',
+  'preCheck.aspectRatio.letterboxed': '{ratio}:1 ist Hochformat, aber nicht 9:16, daher werden Ränder ergänzt.',
+  'preCheck.aspectRatio.landscape': '{ratio}:1 ist kein Hochformat. Stories müssen im Hochformat sein (empfohlen: 9:16).',
+
+  'panel.queuedTitle': 'Wartet auf Analyse',
+  'panel.queuedBody': 'Wir analysieren bis zu {count} Slides gleichzeitig. Dieser Slide startet, sobald ein Platz frei wird.',
+  'panel.analyzingTitle': 'KI-Analyse läuft',
+  'panel.analyzingBody': 'Unsere KI prüft deine Inhalte auf unsere Richtlinien und ermittelt die beste Zielgruppe für deine Story.',
+  'panel.reviewTitle': 'Wartet auf manuelle Prüfung',
+  'panel.reviewBody': 'Unsere KI konnte keine sichere Entscheidung treffen, daher prüft ein Mitglied unseres Teams diesen Inhalt. Du kannst in der Zwischenzeit weiter an deiner Story arbeiten.',
+  'panel.appealedTitle': 'Einspruch eingereicht',
+  'panel.appealedBody': 'Ein Mitglied unseres Teams prüft die ursprüngliche Entscheidung zusammen mit deiner Begründung. Du kannst in der Zwischenzeit weiter an deiner Story arbeiten.',
+  'panel.appealedExplanation': 'Deine Begründung:',
+  'panel.errorTitle': 'Analyse fehlgeschlagen',
+  'panel.errorFallback': 'Ein unerwarteter Fehler ist aufgetreten. Bitte versuche es erneut.',
+  'panel.error.busy': 'Gerade werden sehr viele Uploads analysiert. Bitte warte einen Moment und versuche es erneut.',
+  'panel.error.unavailable': 'Unsere Inhaltsprüfung ist vorübergehend nicht verfügbar. Bitte versuche es in ein paar Minuten erneut.',
+  'panel.error.tooLarge': 'Diese Datei ist zu groß für die Analyse. Bitte lade eine kleinere Version hoch.',
+  'panel.error.rejected': 'Diese Datei konnte nicht analysiert werden. Bitte versuche es erneut oder lade eine andere Datei hoch.',
+  'panel.error.offline': 'Unsere Server sind nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.',
+  'panel.retryAnalysis': 'Analyse wiederholen',
+  'panel.uploadDifferentFile': 'Andere Datei hochladen',
+  'panel.rejectedTitle': 'Inhalt nicht freigegeben',
+  'panel.rejectedPreCheck': 'Deine Datei erfüllt nicht unsere Anforderungen an Uploads.',
+  'panel.rejectedReviewer': 'Ein Mitglied unseres Teams hat deinen Inhalt geprüft und konnte ihn nicht freigeben.',
+  'panel.rejectedAi': 'Unsere KI hat Probleme mit deinem hochgeladenen Inhalt festgestellt.',
+  'panel.rejectionReasons': 'Gründe für die Ablehnung:',
+  'panel.flaggedCategories': 'Markierte Kategorien',
+  'panel.rejectedGuidance': 'Bitte lade ein anderes Bild oder Video hoch, das unseren Richtlinien entspricht.',
+  'panel.uploadDifferentImage': 'Anderes Bild hochladen',
+  'panel.approvedTitle': 'Inhalt freigegeben',
+  'panel.approvedBody': 'Dein Inhalt hat alle Prüfungen bestanden und kann veröffentlicht werden!',
+  'panel.treatmentType': 'Behandlung (für Kund:innen sichtbar)',
+  'panel.tags': 'Tags',
+  'panel.confidence': 'Sicherheit des Modells',
+  'panel.moderationChecks': 'Moderationsprüfungen',
+
+  'reviewNote.overturned': 'Einspruch erfolgreich: Das Treatwell-Team hat deinen Inhalt freigegeben',
+  'reviewNote.upheld': 'Einspruch geprüft: Das Treatwell-Team hat die ursprüngliche Entscheidung bestätigt',
+  'reviewNote.reviewed': 'Vom Treatwell-Team geprüft',
+
+  'cache.badge': 'Gespeichertes Ergebnis',
+  'cache.title': 'Aus einer früheren Analyse derselben Datei übernommen',
+  'cache.titleWithModel': 'Aus einer früheren Analyse derselben Datei übernommen ({model}, Prompt v{version})',
+
+  'appeal.open': 'Einspruch einlegen',
+  'appeal.intro': 'Du glaubst, wir haben uns geirrt? Sag uns warum, und ein Mitglied unseres Teams sieht es sich noch einmal an.',
+  'appeal.placeholder': 'z. B. Die Flasche im Hintergrund ist ein Haarpflegeprodukt, kein Alkohol.',
+  'appeal.label': 'Warum sollte diese Entscheidung geändert werden?',
+  'appeal.submit': 'Einspruch senden',
+  'appeal.error.empty': 'Bitte erkläre, warum diese Entscheidung geändert werden sollte.',
+  'appeal.error.tooLong': 'Bitte halte deine Erklärung unter {max} Zeichen.',
+  'appeal.error.alreadyAppealed': 'Gegen diese Entscheidung wurde bereits Einspruch eingelegt.',
+  'appeal.error.failed': 'Dein Einspruch konnte nicht gesendet werden. Bitte versuche es erneut.',
+
+  'treatment.label': 'Für Kund:innen angezeigte Behandlung',
+  'treatment.choose': 'Behandlung auswählen',
+  'treatment.search': 'Behandlungen suchen …',
+  'treatment.empty': 'Keine Behandlung gefunden.',
+  'treatment.suggestions': 'KI-Vorschläge',
+  'treatment.all': 'Alle Behandlungen',
+  'treatment.match': '{score} Übereinstimmung',
+  'treatment.chosenByAi': 'Von der KI gewählt',
+  'treatment.chosenByPartner': 'Von dir gewählt',
+
+  'tags.empty': 'Noch keine Tags. Tags helfen Kund:innen, deine Story zu finden.',
+  'tags.add': 'Tag hinzufügen',
+  'tags.search': 'Tags suchen …',
+  'tags.noMatch': 'Kein passender Tag.',
+  'tags.remove': 'Tag {tag} entfernen',
+
+  'history.title': 'Verlauf von Prüfungen und Einsprüchen',
+  'history.appealPending': 'Einspruch wird geprüft',
+  'history.reviewPending': 'Wartet auf Prüfung',
+  'history.appealApproved': 'Einspruch erfolgreich',
+  'history.appealRejected': 'Einspruch abgelehnt',
+  'history.approved': 'Vom Team freigegeben',
+  'history.rejected': 'Vom Team abgelehnt',
+  'history.loadFailed': 'Dein Prüf- und Einspruchsverlauf konnte nicht geladen werden.',
+  'history.retry': 'Erneut versuchen',
+
+  'editor.titleImage': 'Bild anpassen',
+  'editor.titleVideo': 'Video anpassen',
+  'editor.introImage': 'Stories werden im Hochformat 9:16 angezeigt.',
+  'editor.introVideo': 'Stories werden im Hochformat 9:16 angezeigt, Videos dürfen bis zu {max} Sekunden lang sein.',
+  'editor.remaining_one': 'Danach ist noch {count} weitere Datei zu prüfen.',
+  'editor.remaining_other': 'Danach sind noch {count} weitere Dateien zu prüfen.',
+  'editor.discard': 'Diese Datei verwerfen',
+  'editor.imageAlt': 'Upload in Bearbeitung',
+  'editor.cropPosition': 'Position des Zuschnitts',
+  'editor.cropPositionValue': '{x} % von links, {y} % von oben',
+  'editor.cropSize': 'Größe des Zuschnitts',
+  'editor.trim': 'Kürzen',
+  'editor.trimRange': '{start} s – {end} s ({length} s)',
+  'editor.trimLabel': 'Anfang und Ende kürzen',
+  'editor.useOriginal': 'Original verwenden',
+  'editor.recording': 'Wird aufgenommen …',
+  'editor.saving': 'Wird gespeichert …',
+  'editor.apply': 'Übernehmen',
+  'editor.error.unreadable': 'Diese Datei konnte nicht zum Bearbeiten geöffnet werden. Speichere sie erneut aus deiner Kamera- oder Bearbeitungs-App.',
+  'editor.error.encodeFailed': 'Dein bearbeitetes Bild konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'editor.error.recordingUnsupported': 'Dein Browser kann kein Video aufnehmen, daher kann dieser Clip hier nicht bearbeitet werden. Versuche es mit einem anderen Browser oder kürze ihn vor dem Hochladen.',
+  'editor.error.recordingStalled': 'Die Aufnahme deines bearbeiteten Videos wurde unterbrochen. Lass diesen Tab während der Aufnahme geöffnet und versuche es erneut.',
+  'editor.error.failed': 'Deine Bearbeitung konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'storyPreview.title': 'Vorschau & Veröffentlichen',
+  'storyPreview.contentStatus': 'Status der Inhalte',
+  'storyPreview.content': 'Inhalt',
+  'storyPreview.pendingValidation': 'Prüfung ausstehend',
+  'storyPreview.approved': 'Freigegeben',
+  'storyPreview.notApproved': 'Nicht freigegeben',
+  'storyPreview.mobileInfo': 'Die Vorschau zeigt, wie Kund:innen deine Stories in der Treatwell-App sehen',
+  'storyPreview.backToEdit': 'Zurück zur Bearbeitung',
+  'storyPreview.terms': 'Mit der Veröffentlichung stimmst du den {link} von Treatwell zu',
+  'storyPreview.termsLink': 'Allgemeinen Geschäftsbedingungen',
+  'storyPreview.storyAlt': 'Story-Inhalt',
+  'storyPreview.book': 'Jetzt bei mir buchen',
+  'storyPreview.swipeUp': 'Zum Buchen nach oben wischen',
+  'storyPreview.share': 'Teilen',
+  'storyPreview.mobileLabel': 'Vorschau der App',
+};
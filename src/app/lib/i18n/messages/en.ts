@@ -0,0 +1,254 @@
+// Source catalogue. Add new strings here first; the other catalogues are typed
+// against this one. `{name}` is a placeholder, and keys ending in `_one` /
+// `_other` are plural forms picked by the `count` param.
+
+import { MODERATION_POLICY } from '../../moderation/policy-config';
+
+const { bannedCategories } = MODERATION_POLICY;
+
+export const en = {
+  'locale.label': 'Language',
+
+  'common.cancel': 'Cancel',
+  'common.preview': 'Preview',
+  'common.publish': 'Publish',
+  'common.done': 'Done',
+  'common.dismiss': 'Dismiss',
+  'common.image': 'Image',
+  'common.video': 'Video',
+
+  'success.title': '🎉 Your Stories Are Going Live!',
+  'success.body': 'Amazing! Your stories will appear on the Treatwell marketplace in the next few minutes and start attracting customers.',
+  'success.trackTitle': 'Track Your Success',
+  'success.trackBody': 'Visit the {reports} section to see how many customers viewed your stories and placed bookings. Watch your engagement grow! 📈',
+  'success.reports': 'Reports',
+
+  'matching.title': 'AI-Powered Customer Matching',
+  'matching.body': 'Your stories will be shown to customers most likely to book your services.',
+  'matching.reach': '{highlight} based on their preferences, location, and booking history.',
+  'matching.reachHighlight': 'Reach new customers',
+
+  'upload.title': 'Story Showcase - Upload Content',
+  'upload.progress': 'Analysed {done} of {total}',
+  'upload.progressQueued': '{count} queued',
+  'upload.introTitle': 'Publish to Treatwell Marketplace',
+  'upload.introBody': 'Your content will be displayed to thousands of potential customers browsing Treatwell. High-quality stories help attract new customers and showcase your best work to people actively looking to book treatments.',
+  'upload.dropPrompt': 'Click to upload or drag and drop',
+  'upload.dropActive': 'Drop to upload',
+  'upload.formats': 'Images (JPG, PNG, WebP, HEIC) or Videos (MP4, MOV, max 10 seconds) - Max 50MB',
+  'upload.limit': 'Select several files to build a story of up to {max} slides',
+  'upload.addMore': 'Add more slides',
+  'upload.addMoreActive': 'Drop to add slides',
+
+  'guidelines.title': '📋 Upload Guidelines',
+  'guidelines.vertical': 'Vertical format',
+  'guidelines.verticalBody': 'Content must be in vertical/portrait orientation (9:16 ratio recommended)',
+  'guidelines.quality': 'High quality',
+  'guidelines.qualityBody': 'Upload clear, well-lit, high-resolution images and videos',
+  'guidelines.contact': 'No contact information',
+  'guidelines.contactBody': "Don't include phone numbers, email addresses, or external social media handles",
+  'guidelines.content': 'Appropriate content only',
+  'guidelines.contentBody': 'No medical procedures, nudity, or sensitive content',
+
+  'notice.converting_one': 'Converting {count} photo to JPG…',
+  'notice.converting_other': 'Converting {count} photos to JPG…',
+  'notice.unsupported_one': "{files} isn't a supported file type. Upload JPG, PNG, WebP or HEIC images, or MP4 or MOV videos.",
+  'notice.unsupported_other': "{files} aren't supported file types. Upload JPG, PNG, WebP or HEIC images, or MP4 or MOV videos.",
+  'notice.overLimit_one': 'A story can hold up to {max} slides, so {count} file was not added.',
+  'notice.overLimit_other': 'A story can hold up to {max} slides, so {count} files were not added.',
+  'notice.cancelled': 'Analysis was cancelled when the upload window was closed.',
+  'notice.conversionFailed': "{file} couldn't be converted in this browser. Please export it as a JPG and try again.",
+
+  'footer.ready_one': '{count} item ready to publish',
+  'footer.ready_other': '{count} items ready to publish',
+  'footer.analyzing': '{count} analyzing',
+  'footer.awaitingReview': '{count} awaiting review',
+  'footer.underAppeal': '{count} under appeal',
+  'footer.slides': '{count} / {max} slides',
+
+  'media.previewAlt': 'Upload preview',
+  'media.queued': 'Queued',
+  'media.analyzing': 'Analyzing...',
+  'media.awaitingReview': 'Awaiting human review',
+  'media.appealUnderReview': 'Appeal under review',
+  'media.rejected': 'Content Rejected',
+  'media.contactFound': 'Contact details found',
+  'media.contactFoundList': 'Contact details found: {items}',
+
+  'order.title': 'Slide Order',
+  'order.hint': 'Drag to reorder, or focus a slide and use the arrow keys',
+  'order.listLabel': 'Story slides',
+  'order.moved': 'Slide moved to position {position} of {total}',
+  'order.slideImage': 'Slide {position} of {total}, image',
+  'order.slideVideo': 'Slide {position} of {total}, video',
+  'order.roleDescription': 'sortable slide',
+
+  'flag.nudity': 'Nudity / Sexual content',
+  'flag.profanity': 'Profanity / Offensive text',
+  'flag.violence': 'Violence / Gore',
+  'flag.illegalItems': 'Drugs / Weapons / Illegal items',
+  'flag.contactInfo': 'Contact information',
+  'flag.offTopicContent': 'Off-topic content',
+  'flag.flagged': 'Flagged',
+  'flag.clear': 'Clear',
+  'flag.at': 'at {times}',
+  'flag.second': '{seconds}s',
+
+  // Partner-facing rejection reasons, one per flagged category. English comes
+  // straight from the policy config; update the translations when it changes.
+  'reason.nudity': bannedCategories.nudity.reason,
+  'reason.profanity': bannedCategories.profanity.reason,
+  'reason.violence': bannedCategories.violence.reason,
+  'reason.illegalItems': bannedCategories.illegalItems.reason,
+  'reason.contactInfo': bannedCategories.contactInfo.reason,
+  'reason.offTopicContent': bannedCategories.offTopicContent.reason,
+  'reason.contactDetails': 'Contact details are visible: {items}.',
+
+  'contactKind.phone': 'phone number',
+  'contactKind.email': 'email address',
+  'contactKind.url': 'website',
+  'contactKind.handle': 'social media handle',
+
+  'preCheck.title': 'Upload Requirements',
+  'preCheck.pass': 'Pass',
+  'preCheck.warn': 'Warning',
+  'preCheck.fail': 'Failed',
+  'preCheck.rule.fileSize': 'File size',
+  'preCheck.rule.fileType': 'File type',
+  'preCheck.rule.duration': 'Video length',
+  'preCheck.rule.resolution': 'Resolution',
+  'preCheck.rule.aspectRatio': 'Aspect ratio',
+  'preCheck.fileSize.ok': '{size}MB (max 50MB)',
+  'preCheck.fileSize.tooLarge': '{size}MB is over the 50MB limit.',
+  'preCheck.fileType.image': 'JPG / PNG / WebP image',
+  'preCheck.fileType.video': 'MP4 / MOV video',
+  'preCheck.fileType.invalid': 'This file is not a valid JPG, PNG, WebP, MP4 or MOV file.',
+  'preCheck.duration.ok': '{duration}s (max {max}s)',
+  'preCheck.duration.tooLong': '{duration}s is longer than the {max} second limit.',
+  'preCheck.duration.unknown': 'The video length could not be determined.',
+  'preCheck.resolution.ok': '{dimensions}',
+  'preCheck.resolution.low': '{dimensions} may look blurry ({recommended}px+ recommended).',
+  'preCheck.resolution.tooSmall': '{dimensions} is too small (min {min}px on the short side).',
+  'preCheck.resolution.unreadableImage': 'This image could not be read by your browser.',
+  'preCheck.resolution.unreadableVideo': 'This video could not be read by your browser.',
+  'preCheck.aspectRatio.ok': '9:16 vertical',
+  'preCheck.aspectRatio.letterboxed': '{ratio}:1 is portrait but not 9:16, so it will be letterboxed.',
+  'preCheck.aspectRatio.landscape': '{ratio}:1 is not vertical. Stories must be portrait (9:16 recommended).',
+
+  'panel.queuedTitle': 'Waiting for analysis',
+  'panel.queuedBody': 'We analyse up to {count} slides at a time. This one will start as soon as a slot is free.',
+  'panel.analyzingTitle': 'AI Analysis in Progress',
+  'panel.analyzingBody': 'Our AI is analyzing your content to ensure it meets our guidelines and to identify the best audience for your story.',
+  'panel.reviewTitle': 'Awaiting human review',
+  'panel.reviewBody': "Our AI couldn't make a confident decision, so a member of our team will check this content. You can keep working on your story in the meantime.",
+  'panel.appealedTitle': 'Appeal submitted',
+  'panel.appealedBody': 'A member of our team will review the original decision along with your explanation. You can keep working on your story in the meantime.',
+  'panel.appealedExplanation': 'Your explanation:',
+  'panel.errorTitle': 'Analysis Failed',
+  'panel.errorFallback': 'An unexpected error occurred. Please try again.',
+  'panel.error.busy': 'Lots of uploads are being analysed right now. Please wait a moment and try again.',
+  'panel.error.unavailable': 'Our content checks are temporarily unavailable. Please try again in a few minutes.',
+  'panel.error.tooLarge': 'This file is too large to analyse. Please upload a smaller version.',
+  'panel.error.rejected': "This file couldn't be analysed. Please try again or upload a different file.",
+  'panel.error.offline': "We couldn't reach our servers. Check your connection and try again.",
+  'panel.retryAnalysis': 'Retry analysis',
+  'panel.uploadDifferentFile': 'Upload a different file',
+  'panel.rejectedTitle': 'Content Not Approved',
+  'panel.rejectedPreCheck': "Your file doesn't meet our upload requirements.",
+  'panel.rejectedReviewer': 'A member of our team reviewed your content and could not approve it.',
+  'panel.rejectedAi': 'Our AI detected issues with your uploaded content.',
+  'panel.rejectionReasons': 'Rejection Reasons:',
+  'panel.flaggedCategories': 'Flagged Categories',
+  'panel.rejectedGuidance': 'Please upload a different picture or video that meets our guidelines.',
+  'panel.uploadDifferentImage': 'Upload a different image',
+  'panel.approvedTitle': 'Content Approved',
+  'panel.approvedBody': 'Your content passed all our checks and is ready to publish!',
+  'panel.treatmentType': 'Treatment type (shown to customers)',
+  'panel.tags': 'Tags',
+  'panel.confidence': 'Model Confidence',
+  'panel.moderationChecks': 'Moderation Checks',
+
+  'reviewNote.overturned': 'Appeal successful: the Treatwell team approved your content',
+  'reviewNote.upheld': 'Appeal reviewed: the Treatwell team upheld the original decision',
+  'reviewNote.reviewed': 'Reviewed by the Treatwell team',
+
+  'cache.badge': 'Cached result',
+  'cache.title': 'Reused from an earlier analysis of the same file',
+  'cache.titleWithModel': 'Reused from an earlier analysis of the same file ({model}, prompt v{version})',
+
+  'appeal.open': 'Appeal this decision',
+  'appeal.intro': 'Think we got this wrong? Tell us why and a member of our team will look at it again.',
+  'appeal.placeholder': 'e.g. The bottle in the background is a hair product, not alcohol.',
+  'appeal.label': 'Why should this decision be changed?',
+  'appeal.submit': 'Submit appeal',
+  'appeal.error.empty': 'Please explain why this decision should be changed.',
+  'appeal.error.tooLong': 'Please keep your explanation under {max} characters.',
+  'appeal.error.alreadyAppealed': 'This decision has already been appealed.',
+  'appeal.error.failed': "Your appeal couldn't be sent. Please try again.",
+
+  'treatment.label': 'Treatment shown to customers',
+  'treatment.choose': 'Choose a treatment',
+  'treatment.search': 'Search treatments…',
+  'treatment.empty': 'No treatment found.',
+  'treatment.suggestions': 'AI suggestions',
+  'treatment.all': 'All treatments',
+  'treatment.match': '{score} match',
+  'treatment.chosenByAi': 'Chosen by AI',
+  'treatment.chosenByPartner': 'Chosen by you',
+
+  'tags.empty': 'No tags yet. Tags help customers find your story.',
+  'tags.add': 'Add tag',
+  'tags.search': 'Search tags…',
+  'tags.noMatch': 'No matching tag.',
+  'tags.remove': 'Remove tag {tag}',
+
+  'history.title': 'Review & appeal history',
+  'history.appealPending': 'Appeal under review',
+  'history.reviewPending': 'Awaiting review',
+  'history.appealApproved': 'Appeal successful',
+  'history.appealRejected': 'Appeal rejected',
+  'history.approved': 'Approved by reviewer',
+  'history.rejected': 'Rejected by reviewer',
+  'history.loadFailed': "Your review & appeal history couldn't be loaded.",
+  'history.retry': 'Try again',
+
+  'editor.titleImage': 'Adjust your image',
+  'editor.titleVideo': 'Adjust your video',
+  'editor.introImage': 'Stories are shown in vertical 9:16.',
+  'editor.introVideo': 'Stories are shown in vertical 9:16 and videos can be up to {max} seconds.',
+  'editor.remaining_one': '{count} more file to review after this one.',
+  'editor.remaining_other': '{count} more files to review after this one.',
+  'editor.discard': 'Discard this file',
+  'editor.imageAlt': 'Upload being edited',
+  'editor.cropPosition': 'Crop position',
+  'editor.cropPositionValue': '{x}% from left, {y}% from top',
+  'editor.cropSize': 'Crop size',
+  'editor.trim': 'Trim',
+  'editor.trimRange': '{start}s – {end}s ({length}s)',
+  'editor.trimLabel': 'Trim start and end',
+  'editor.useOriginal': 'Use original',
+  'editor.recording': 'Recording…',
+  'editor.saving': 'Saving…',
+  'editor.apply': 'Apply',
+  'editor.error.unreadable': "This file couldn't be opened for editing. Try saving it again from your camera or editing app.",
+  'editor.error.encodeFailed': "Your edited image couldn't be saved. Please try again.",
+  'editor.error.recordingUnsupported': "Your browser can't record video, so this clip can't be edited here. Try another browser, or trim it before uploading.",
+  'editor.error.recordingStalled': 'Recording your edited video stopped. Keep this tab open while it records and try again.',
+  'editor.error.failed': "Your edit couldn't be saved. Please try again.",
+
+  'storyPreview.title': 'Preview & Publish',
+  'storyPreview.contentStatus': 'Content Status',
+  'storyPreview.content': 'Content',
+  'storyPreview.pendingValidation': 'Pending validation',
+  'storyPreview.approved': 'Approved',
+  'storyPreview.notApproved': 'Not approved',
+  'storyPreview.mobileInfo': 'Preview shows how stories appear to customers on the Treatwell mobile app',
+  'storyPreview.backToEdit': 'Back to Edit',
+  'storyPreview.terms': "By publishing, you agree to Treatwell's {link}",
+  'storyPreview.termsLink': 'Terms & Conditions',
+  'storyPreview.storyAlt': 'Story content',
+  'storyPreview.book': 'Book with Me',
+  'storyPreview.swipeUp': 'Swipe up to book',
+  'storyPreview.share': 'Share',
+  'storyPreview.mobileLabel': 'Mobile App Preview',
+};
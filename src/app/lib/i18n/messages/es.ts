@@ -0,0 +1,246 @@
+import type { Messages } from '../index';
+
+export const es: Messages = {
+  'locale.label': 'Idioma',
+
+  'common.cancel': 'Cancelar',
+  'common.preview': 'Vista previa',
+  'common.publish': 'Publicar',
+  'common.done': 'Hecho',
+  'common.dismiss': 'Cerrar',
+  'common.image': 'Imagen',
+  'common.video': 'Vídeo',
+
+  'success.title': '🎉 ¡Tus stories se están publicando!',
+  'success.body': '¡Genial! Tus stories aparecerán en el marketplace de Treatwell en unos minutos y empezarán a atraer clientes.',
+  'success.trackTitle': 'Sigue tus resultados',
+  'success.trackBody': 'Visita la sección {reports} para ver cuántos clientes han visto tus stories y han reservado. ¡Mira cómo crece tu interacción! 📈',
+  'success.reports': 'Informes',
+
+  'matching.title': 'Segmentación de clientes con IA',
+  'matching.body': 'Tus stories se mostrarán a los clientes con más probabilidades de reservar tus servicios.',
+  'matching.reach': '{highlight} según sus preferencias, ubicación e historial de reservas.',
+  'matching.reachHighlight': 'Llega a nuevos clientes',
+
+  'upload.title': 'Story Showcase - Subir contenido',
+  'upload.progress': '{done} de {total} analizados',
+  'upload.progressQueued': '{count} en cola',
+  'upload.introTitle': 'Publicar en el marketplace de Treatwell',
+  'upload.introBody': 'Tu contenido se mostrará a miles de clientes potenciales que navegan por Treatwell. Unas stories de calidad te ayudan a atraer nuevos clientes y a mostrar tu mejor trabajo a personas que buscan reservar un tratamiento.',
+  'upload.dropPrompt': 'Haz clic para subir o arrastra y suelta',
+  'upload.dropActive': 'Suelta para subir',
+  'upload.formats': 'Imágenes (JPG, PNG, WebP, HEIC) o vídeos (MP4, MOV, máx. 10 segundos) - Máx. 50 MB',
+  'upload.limit': 'Selecciona varios archivos para crear una story de hasta {max} diapositivas',
+  'upload.addMore': 'Añadir más diapositivas',
+  'upload.addMoreActive': 'Suelta para añadir diapositivas',
+
+  'guidelines.title': '📋 Normas de publicación',
+  'guidelines.vertical': 'Formato vertical',
+  'guidelines.verticalBody': 'El contenido debe estar en orientación vertical (se recomienda 9:16)',
+  'guidelines.quality': 'Alta calidad',
+  'guidelines.qualityBody': 'Sube imágenes y vídeos nítidos, bien iluminados y de alta resolución',
+  'guidelines.contact': 'Sin datos de contacto',
+  'guidelines.contactBody': 'No incluyas números de teléfono, direcciones de correo ni perfiles de redes sociales externos',
+  'guidelines.content': 'Solo contenido apropiado',
+  'guidelines.contentBody': 'Nada de procedimientos médicos, desnudos ni contenido sensible',
+
+  'notice.converting_one': 'Convirtiendo {count} foto a JPG…',
+  'notice.converting_other': 'Convirtiendo {count} fotos a JPG…',
+  'notice.unsupported_one': '{files} no es un tipo de archivo compatible. Sube imágenes JPG, PNG, WebP o HEIC, o vídeos MP4 o MOV.',
+  'notice.unsupported_other': '{files} no son tipos de archivo compatibles. Sube imágenes JPG, PNG, WebP o HEIC, o vídeos MP4 o MOV.',
+  'notice.overLimit_one': 'Una story puede tener hasta {max} diapositivas, así que no se ha añadido {count} archivo.',
+  'notice.overLimit_other': 'Una story puede tener hasta {max} diapositivas, así que no se han añadido {count} archivos.',
+  'notice.cancelled': 'El análisis se canceló al cerrar la ventana de subida.',
+  'notice.conversionFailed': 'No se ha podido convertir {file} en este navegador. Expórtalo como JPG e inténtalo de nuevo.',
+
+  'footer.ready_one': '{count} elemento listo para publicar',
+  'footer.ready_other': '{count} elementos listos para publicar',
+  'footer.analyzing': '{count} analizándose',
+  'footer.awaitingReview': '{count} pendientes de revisión',
+  'footer.underAppeal': '{count} en apelación',
+  'footer.slides': '{count} / {max} diapositivas',
+
+  'media.previewAlt': 'Vista previa del archivo subido',
+  'media.queued': 'En cola',
+  'media.analyzing': 'Analizando...',
+  'media.awaitingReview': 'Pendiente de revisión manual',
+  'media.appealUnderReview': 'Apelación en revisión',
+  'media.rejected': 'Contenido rechazado',
+  'media.contactFound': 'Datos de contacto detectados',
+  'media.contactFoundList': 'Datos de contacto detectados: {items}',
+
+  'order.title': 'Orden de las diapositivas',
+  'order.hint': 'Arrastra para reordenar, o selecciona una diapositiva y usa las flechas del teclado',
+  'order.listLabel': 'Diapositivas de la story',
+  'order.moved': 'Diapositiva movida a la posición {position} de {total}',
+  'order.slideImage': 'Diapositiva {position} de {total}, imagen',
+  'order.slideVideo': 'Diapositiva {position} de {total}, vídeo',
+  'order.roleDescription': 'diapositiva reordenable',
+
+  'flag.nudity': 'Desnudos / Contenido sexual',
+  'flag.profanity': 'Lenguaje soez / Texto ofensivo',
+  'flag.violence': 'Violencia / Sangre',
+  'flag.illegalItems': 'Drogas / Armas / Artículos ilegales',
+  'flag.contactInfo': 'Datos de contacto',
+  'flag.offTopicContent': 'Contenido no relacionado',
+  'flag.flagged': 'Señalado',
+  'flag.clear': 'Correcto',
+  'flag.at': 'en {times}',
+  'flag.second': '{seconds} s',
+
+  'reason.nudity': 'Las stories no pueden mostrar desnudos ni contenido sexual. En los tratamientos corporales, las zonas íntimas deben estar cubiertas.',
+  'reason.profanity': 'Las stories no pueden incluir palabrotas ni lenguaje ofensivo, tampoco en carteles o productos.',
+  'reason.violence': 'Las stories no pueden mostrar violencia, sangre ni heridas explícitas.',
+  'reason.illegalItems': 'Las stories no pueden mostrar drogas, armas ni otros artículos ilegales.',
+  'reason.contactInfo': 'Las stories no pueden incluir números de teléfono, correos, sitios web ni perfiles de redes sociales. Los clientes reservan a través de Treatwell.',
+  'reason.offTopicContent': 'Las stories deben mostrar un tratamiento, un resultado o un centro de una de las categorías de Treatwell.',
+  'reason.contactDetails': 'Hay datos de contacto visibles: {items}.',
+
+  'contactKind.phone': 'número de teléfono',
+  'contactKind.email': 'dirección de correo',
+  'contactKind.url': 'sitio web',
+  'contactKind.handle': 'perfil de redes sociales',
+
+  'preCheck.title': 'Requisitos de subida',
+  'preCheck.pass': 'Correcto',
+  'preCheck.warn': 'Aviso',
+  'preCheck.fail': 'Error',
+  'preCheck.rule.fileSize': 'Tamaño del archivo',
+  'preCheck.rule.fileType': 'Tipo de archivo',
+  'preCheck.rule.duration': 'Duración del vídeo',
+  'preCheck.rule.resolution': 'Resolución',
+  'preCheck.rule.aspectRatio': 'Relación de aspecto',
+  'preCheck.fileSize.ok': '{size} MB (máx. 50 MB)',
+  'preCheck.fileSize.tooLarge': '{size} MB supera el límite de 50 MB.',
+  'preCheck.fileType.image': 'Imagen JPG / PNG / WebP',
+  'preCheck.fileType.video': 'Vídeo MP4 / MOV',
+  'preCheck.fileType.invalid': 'Este archivo no es un JPG, PNG, WebP, MP4 o MOV válido.',
+  'preCheck.duration.ok': '{duration} s (máx. {max} s)',
+  'preCheck.duration.tooLong': '{duration} s supera el límite de {max} segundos.',
+  'preCheck.duration.unknown': 'No se ha podido determinar la duración del vídeo.',
+  'preCheck.resolution.ok': '{dimensions}',
+  'preCheck.resolution.low': '{dimensions} puede verse borroso (se recomiendan {recommended} px o más).',
+  'preCheck.resolution.tooSmall': '{dimensions} es demasiado pequeño (mín. {min} px en el lado corto).',
+  'preCheck.resolution.unreadableImage': 'Tu navegador no ha podido leer esta imagen.',
+  'preCheck.resolution.unreadableVideo': 'Tu navegador no ha podido leer este vídeo.',
+  'preCheck.aspectRatio.ok': 'Vertical 9:16',
+  'preCheck.aspectRatio.letterboxed': '{ratio}:1 es vertical pero no 9:16, así que se añadirán bandas.',
+  'preCheck.aspectRatio.landscape': '{ratio}:1 no es vertical. Las stories deben estar en formato vertical (se recomienda 9:16).',
+
+  'panel.queuedTitle': 'Esperando el análisis',
+  'panel.queuedBody': 'Analizamos hasta {count} diapositivas a la vez. Esta empezará en cuanto quede un hueco libre.',
+  'panel.analyzingTitle': 'Análisis con IA en curso',
+  'panel.analyzingBody': 'Nuestra IA está analizando tu contenido para comprobar que cumple nuestras normas y encontrar el mejor público para tu story.',
+  'panel.reviewTitle': 'Pendiente de revisión manual',
+  'panel.reviewBody': 'Nuestra IA no ha podido decidir con seguridad, así que un miembro de nuestro equipo revisará este contenido. Mientras tanto puedes seguir trabajando en tu story.',
+  'panel.appealedTitle': 'Apelación enviada',
+  'panel.appealedBody': 'Un miembro de nuestro equipo revisará la decisión original junto con tu explicación. Mientras tanto puedes seguir trabajando en tu story.',
+  'panel.appealedExplanation': 'Tu explicación:',
+  'panel.errorTitle': 'Error en el análisis',
+  'panel.errorFallback': 'Se ha producido un error inesperado. Inténtalo de nuevo.',
+  'panel.error.busy': 'Ahora mismo se están analizando muchos archivos. Espera un momento e inténtalo de nuevo.',
+  'panel.error.unavailable': 'Nuestras comprobaciones de contenido no están disponibles temporalmente. Inténtalo de nuevo en unos minutos.',
+  'panel.error.tooLarge': 'Este archivo es demasiado grande para analizarlo. Sube una versión más pequeña.',
+  'panel.error.rejected': 'No se ha podido analizar este archivo. Inténtalo de nuevo o sube otro archivo.',
+  'panel.error.offline': 'No hemos podido conectar con nuestros servidores. Comprueba tu conexión e inténtalo de nuevo.',
+  'panel.retryAnalysis': 'Reintentar el análisis',
+  'panel.uploadDifferentFile': 'Subir otro archivo',
+  'panel.rejectedTitle': 'Contenido no aprobado',
+  'panel.rejectedPreCheck': 'Tu archivo no cumple nuestros requisitos de subida.',
+  'panel.rejectedReviewer': 'Un miembro de nuestro equipo ha revisado tu contenido y no ha podido aprobarlo.',
+  'panel.rejectedAi': 'Nuestra IA ha detectado problemas en el contenido subido.',
+  'panel.rejectionReasons': 'Motivos del rechazo:',
+  'panel.flaggedCategories': 'Categorías señaladas',
+  'panel.rejectedGuidance': 'Sube otra foto o vídeo que cumpla nuestras normas.',
+  'panel.uploadDifferentImage': 'Subir otra imagen',
+  'panel.approvedTitle': 'Contenido aprobado',
+  'panel.approvedBody': '¡Tu contenido ha superado todas las comprobaciones y está listo para publicarse!',
+  'panel.treatmentType': 'Tipo de tratamiento (visible para los clientes)',
+  'panel.tags': 'Etiquetas',
+  'panel.confidence': 'Confianza del modelo',
+  'panel.moderationChecks': 'Comprobaciones de moderación',
+
+  'reviewNote.overturned': 'Apelación aceptada: el equipo de Treatwell ha aprobado tu contenido',
+  'reviewNote.upheld': 'Apelación revisada: el equipo de Treatwell ha mantenido la decisión original',
+  'reviewNote.reviewed': 'Revisado por el equipo de Treatwell',
+
+  'cache.badge': 'Resultado en caché',
+  'cache.title': 'Reutilizado de un análisis anterior del mismo archivo',
+  'cache.titleWithModel': 'Reutilizado de un análisis anterior del mismo archivo ({model}, prompt v{version})',
+
+  'appeal.open': 'Apelar esta decisión',
+  'appeal.intro': '¿Crees que nos hemos equivocado? Cuéntanos por qué y un miembro de nuestro equipo lo volverá a revisar.',
+  'appeal.placeholder': 'p. ej., la botella del fondo es un producto capilar, no alcohol.',
+  'appeal.label': '¿Por qué debería cambiarse esta decisión?',
+  'appeal.submit': 'Enviar apelación',
+  'appeal.error.empty': 'Explica por qué debería cambiarse esta decisión.',
+  'appeal.error.tooLong': 'Tu explicación debe tener menos de {max} caracteres.',
+  'appeal.error.alreadyAppealed': 'Esta decisión ya se ha apelado.',
+  'appeal.error.failed': 'No se ha podido enviar tu apelación. Inténtalo de nuevo.',
+
+  'treatment.label': 'Tratamiento mostrado a los clientes',
+  'treatment.choose': 'Elige un tratamiento',
+  'treatment.search': 'Buscar tratamientos…',
+  'treatment.empty': 'No se ha encontrado ningún tratamiento.',
+  'treatment.suggestions': 'Sugerencias de la IA',
+  'treatment.all': 'Todos los tratamientos',
+  'treatment.match': 'Coincidencia del {score}',
+  'treatment.chosenByAi': 'Elegido por la IA',
+  'treatment.chosenByPartner': 'Elegido por ti',
+
+  'tags.empty': 'Aún no hay etiquetas. Las etiquetas ayudan a los clientes a encontrar tu story.',
+  'tags.add': 'Añadir etiqueta',
+  'tags.search': 'Buscar etiquetas…',
+  'tags.noMatch': 'Ninguna etiqueta coincide.',
+  'tags.remove': 'Quitar la etiqueta {tag}',
+
+  'history.title': 'Historial de revisiones y apelaciones',
+  'history.appealPending': 'Apelación en revisión',
+  'history.reviewPending': 'Pendiente de revisión',
+  'history.appealApproved': 'Apelación aceptada',
+  'history.appealRejected': 'Apelación rechazada',
+  'history.approved': 'Aprobado por el equipo',
+  'history.rejected': 'Rechazado por el equipo',
+  'history.loadFailed': 'No se ha podido cargar tu historial de revisiones y apelaciones.',
+  'history.retry': 'Reintentar',
+
+  'editor.titleImage': 'Ajusta tu imagen',
+  'editor.titleVideo': 'Ajusta tu vídeo',
+  'editor.introImage': 'Las stories se muestran en formato vertical 9:16.',
+  'editor.introVideo': 'Las stories se muestran en formato vertical 9:16 y los vídeos pueden durar hasta {max} segundos.',
+  'editor.remaining_one': 'Queda {count} archivo más por revisar después de este.',
+  'editor.remaining_other': 'Quedan {count} archivos más por revisar después de este.',
+  'editor.discard': 'Descartar este archivo',
+  'editor.imageAlt': 'Archivo en edición',
+  'editor.cropPosition': 'Posición del recorte',
+  'editor.cropPositionValue': '{x} % desde la izquierda, {y} % desde arriba',
+  'editor.cropSize': 'Tamaño del recorte',
+  'editor.trim': 'Recortar',
+  'editor.trimRange': '{start} s – {end} s ({length} s)',
+  'editor.trimLabel': 'Inicio y fin del recorte',
+  'editor.useOriginal': 'Usar el original',
+  'editor.recording': 'Grabando…',
+  'editor.saving': 'Guardando…',
+  'editor.apply': 'Aplicar',
+  'editor.error.unreadable': 'No se ha podido abrir este archivo para editarlo. Vuelve a guardarlo desde tu cámara o tu aplicación de edición.',
+  'editor.error.encodeFailed': 'No se ha podido guardar tu imagen editada. Inténtalo de nuevo.',
+  'editor.error.recordingUnsupported': 'Tu navegador no puede grabar vídeo, así que este clip no se puede editar aquí. Prueba con otro navegador o recórtalo antes de subirlo.',
+  'editor.error.recordingStalled': 'La grabación de tu vídeo editado se ha detenido. Mantén esta pestaña abierta mientras se graba e inténtalo de nuevo.',
+  'editor.error.failed': 'No se han podido guardar tus cambios. Inténtalo de nuevo.',
+
+  'storyPreview.title': 'Vista previa y publicación',
+  'storyPreview.contentStatus': 'Estado del contenido',
+  'storyPreview.content': 'Contenido',
+  'storyPreview.pendingValidation': 'Pendiente de validación',
+  'storyPreview.approved': 'Aprobado',
+  'storyPreview.notApproved': 'No aprobado',
+  'storyPreview.mobileInfo': 'La vista previa muestra cómo verán los clientes tus stories en la app de Treatwell',
+  'storyPreview.backToEdit': 'Volver a editar',
+  'storyPreview.terms': 'Al publicar, aceptas los {link} de Treatwell',
+  'storyPreview.termsLink': 'Términos y condiciones',
+  'storyPreview.storyAlt': 'Contenido de la story',
+  'storyPreview.book': 'Reserva conmigo',
+  'storyPreview.swipeUp': 'Desliza hacia arriba para reservar',
+  'storyPreview.share': 'Compartir',
+  'storyPreview.mobileLabel': 'Vista previa de la app',
+};
@@ -0,0 +1,246 @@
+import type { Messages } from '../index';
+
+export const fr: Messages = {
+  'locale.label': 'Langue',
+
+  'common.cancel': 'Annuler',
+  'common.preview': 'Aperçu',
+  'common.publish': 'Publier',
+  'common.done': 'Terminé',
+  'common.dismiss': 'Fermer',
+  'common.image': 'Image',
+  'common.video': 'Vidéo',
+
+  'success.title': '🎉 Vos stories vont être publiées !',
+  'success.body': 'Génial ! Vos stories apparaîtront sur la marketplace Treatwell dans quelques minutes et commenceront à attirer des clients.',
+  'success.trackTitle': 'Suivez vos résultats',
+  'success.trackBody': 'Rendez-vous dans la section {reports} pour voir combien de clients ont vu vos stories et réservé. Regardez votre engagement grandir ! 📈',
+  'success.reports': 'Rapports',
+
+  'matching.title': 'Ciblage des clients par IA',
+  'matching.body': 'Vos stories seront montrées aux clients les plus susceptibles de réserver vos prestations.',
+  'matching.reach': '{highlight} selon leurs préférences, leur localisation et leur historique de réservations.',
+  'matching.reachHighlight': 'Touchez de nouveaux clients',
+
+  'upload.title': 'Story Showcase - Ajouter du contenu',
+  'upload.progress': '{done} sur {total} analysés',
+  'upload.progressQueued': '{count} en attente',
+  'upload.introTitle': 'Publier sur la marketplace Treatwell',
+  'upload.introBody': 'Votre contenu sera présenté à des milliers de clients potentiels sur Treatwell. Des stories de qualité vous aident à attirer de nouveaux clients et à montrer votre meilleur travail à des personnes qui cherchent à réserver une prestation.',
+  'upload.dropPrompt': 'Cliquez pour importer ou glissez-déposez vos fichiers',
+  'upload.dropActive': 'Déposez pour importer',
+  'upload.formats': 'Images (JPG, PNG, WebP, HEIC) ou vidéos (MP4, MOV, 10 secondes max.) - 50 Mo max.',
+  'upload.limit': 'Sélectionnez plusieurs fichiers pour créer une story de {max} slides maximum',
+  'upload.addMore': 'Ajouter des slides',
+  'upload.addMoreActive': 'Déposez pour ajouter des slides',
+
+  'guidelines.title': '📋 Règles de publication',
+  'guidelines.vertical': 'Format vertical',
+  'guidelines.verticalBody': 'Le contenu doit être au format vertical/portrait (ratio 9:16 recommandé)',
+  'guidelines.quality': 'Haute qualité',
+  'guidelines.qualityBody': 'Importez des images et vidéos nettes, bien éclairées et en haute résolution',
+  'guidelines.contact': 'Aucune coordonnée',
+  'guidelines.contactBody': "N'incluez ni numéro de téléphone, ni adresse e-mail, ni compte de réseau social externe",
+  'guidelines.content': 'Contenu approprié uniquement',
+  'guidelines.contentBody': 'Pas d’actes médicaux, de nudité ni de contenu sensible',
+
+  'notice.converting_one': 'Conversion de {count} photo en JPG…',
+  'notice.converting_other': 'Conversion de {count} photos en JPG…',
+  'notice.unsupported_one': "{files} n'est pas un type de fichier pris en charge. Importez des images JPG, PNG, WebP ou HEIC, ou des vidéos MP4 ou MOV.",
+  'notice.unsupported_other': '{files} ne sont pas des types de fichiers pris en charge. Importez des images JPG, PNG, WebP ou HEIC, ou des vidéos MP4 ou MOV.',
+  'notice.overLimit_one': "Une story peut contenir {max} slides au maximum, {count} fichier n'a donc pas été ajouté.",
+  'notice.overLimit_other': "Une story peut contenir {max} slides au maximum, {count} fichiers n'ont donc pas été ajoutés.",
+  'notice.cancelled': "L'analyse a été annulée à la fermeture de la fenêtre d'import.",
+  'notice.conversionFailed': '{file} n’a pas pu être converti dans ce navigateur. Veuillez l’exporter en JPG et réessayer.',
+
+  'footer.ready_one': '{count} élément prêt à être publié',
+  'footer.ready_other': '{count} éléments prêts à être publiés',
+  'footer.analyzing': '{count} en cours d’analyse',
+  'footer.awaitingReview': '{count} en attente de vérification',
+  'footer.underAppeal': '{count} en contestation',
+  'footer.slides': '{count} / {max} slides',
+
+  'media.previewAlt': 'Aperçu du fichier importé',
+  'media.queued': 'En attente',
+  'media.analyzing': 'Analyse en cours…',
+  'media.awaitingReview': 'En attente de vérification manuelle',
+  'media.appealUnderReview': 'Contestation en cours d’examen',
+  'media.rejected': 'Contenu refusé',
+  'media.contactFound': 'Coordonnées détectées',
+  'media.contactFoundList': 'Coordonnées détectées : {items}',
+
+  'order.title': 'Ordre des slides',
+  'order.hint': 'Faites glisser pour réorganiser, ou sélectionnez une slide et utilisez les flèches du clavier',
+  'order.listLabel': 'Slides de la story',
+  'order.moved': 'Slide déplacée en position {position} sur {total}',
+  'order.slideImage': 'Slide {position} sur {total}, image',
+  'order.slideVideo': 'Slide {position} sur {total}, vidéo',
+  'order.roleDescription': 'slide déplaçable',
+
+  'flag.nudity': 'Nudité / Contenu sexuel',
+  'flag.profanity': 'Grossièretés / Texte offensant',
+  'flag.violence': 'Violence / Sang',
+  'flag.illegalItems': 'Drogues / Armes / Objets illégaux',
+  'flag.contactInfo': 'Coordonnées',
+  'flag.offTopicContent': 'Contenu hors sujet',
+  'flag.flagged': 'Signalé',
+  'flag.clear': 'Conforme',
+  'flag.at': 'à {times}',
+  'flag.second': '{seconds} s',
+
+  'reason.nudity': 'Les stories ne peuvent pas montrer de nudité ni de contenu sexuel. Pour les soins du corps, les parties intimes doivent rester couvertes.',
+  'reason.profanity': 'Les stories ne peuvent pas contenir de grossièretés ni de propos offensants, y compris sur des panneaux ou des produits.',
+  'reason.violence': 'Les stories ne peuvent pas montrer de violence, de sang ni de blessures choquantes.',
+  'reason.illegalItems': 'Les stories ne peuvent pas montrer de drogues, d’armes ni d’autres objets illégaux.',
+  'reason.contactInfo': 'Les stories ne peuvent pas inclure de numéros de téléphone, d’e-mails, de sites web ni de comptes de réseaux sociaux. Les clients réservent via Treatwell.',
+  'reason.offTopicContent': 'Les stories doivent montrer une prestation, un résultat ou un établissement relevant de l’une des catégories de Treatwell.',
+  'reason.contactDetails': 'Des coordonnées sont visibles : {items}.',
+
+  'contactKind.phone': 'numéro de téléphone',
+  'contactKind.email': 'adresse e-mail',
+  'contactKind.url': 'site web',
+  'contactKind.handle': 'compte de réseau social',
+
+  'preCheck.title': 'Exigences d’import',
+  'preCheck.pass': 'OK',
+  'preCheck.warn': 'Attention',
+  'preCheck.fail': 'Échec',
+  'preCheck.rule.fileSize': 'Taille du fichier',
+  'preCheck.rule.fileType': 'Type de fichier',
+  'preCheck.rule.duration': 'Durée de la vidéo',
+  'preCheck.rule.resolution': 'Résolution',
+  'preCheck.rule.aspectRatio': 'Format',
+  'preCheck.fileSize.ok': '{size} Mo (50 Mo max.)',
+  'preCheck.fileSize.tooLarge': '{size} Mo dépasse la limite de 50 Mo.',
+  'preCheck.fileType.image': 'Image JPG / PNG / WebP',
+  'preCheck.fileType.video': 'Vidéo MP4 / MOV',
+  'preCheck.fileType.invalid': "Ce fichier n'est pas un fichier JPG, PNG, WebP, MP4 ou MOV valide.",
+  'preCheck.duration.ok': '{duration} s ({max} s max.)',
+  'preCheck.duration.tooLong': '{duration} s dépasse la limite de {max} secondes.',
+  'preCheck.duration.unknown': "La durée de la vidéo n'a pas pu être déterminée.",
+  'preCheck.resolution.ok': '{dimensions}',
+  'preCheck.resolution.low': '{dimensions} risque d’être flou ({recommended} px ou plus recommandés).',
+  'preCheck.resolution.tooSmall': '{dimensions} est trop petit ({min} px minimum sur le petit côté).',
+  'preCheck.resolution.unreadableImage': "Votre navigateur n'a pas pu lire cette image.",
+  'preCheck.resolution.unreadableVideo': "Votre navigateur n'a pas pu lire cette vidéo.",
+  'preCheck.aspectRatio.ok': 'Vertical 9:16',
+  'preCheck.aspectRatio.letterboxed': '{ratio}:1 est vertical mais pas en 9:16 : des bandes seront ajoutées.',
+  'preCheck.aspectRatio.landscape': "{ratio}:1 n'est pas vertical. Les stories doivent être au format portrait (9:16 recommandé).",
+
+  'panel.queuedTitle': 'En attente d’analyse',
+  'panel.queuedBody': 'Nous analysons jusqu’à {count} slides à la fois. Celle-ci démarrera dès qu’une place se libère.',
+  'panel.analyzingTitle': 'Analyse IA en cours',
+  'panel.analyzingBody': 'Notre IA analyse votre contenu pour vérifier qu’il respecte nos règles et identifier le meilleur public pour votre story.',
+  'panel.reviewTitle': 'En attente de vérification manuelle',
+  'panel.reviewBody': "Notre IA n'a pas pu trancher avec certitude : un membre de notre équipe va vérifier ce contenu. Vous pouvez continuer à travailler sur votre story en attendant.",
+  'panel.appealedTitle': 'Contestation envoyée',
+  'panel.appealedBody': 'Un membre de notre équipe réexaminera la décision initiale avec votre explication. Vous pouvez continuer à travailler sur votre story en attendant.',
+  'panel.appealedExplanation': 'Votre explication :',
+  'panel.errorTitle': 'Échec de l’analyse',
+  'panel.errorFallback': 'Une erreur inattendue s’est produite. Veuillez réessayer.',
+  'panel.error.busy': 'De nombreux contenus sont en cours d’analyse. Veuillez patienter un instant et réessayer.',
+  'panel.error.unavailable': 'Nos vérifications de contenu sont temporairement indisponibles. Veuillez réessayer dans quelques minutes.',
+  'panel.error.tooLarge': 'Ce fichier est trop volumineux pour être analysé. Veuillez importer une version plus légère.',
+  'panel.error.rejected': 'Ce fichier n’a pas pu être analysé. Veuillez réessayer ou importer un autre fichier.',
+  'panel.error.offline': 'Impossible de joindre nos serveurs. Vérifiez votre connexion et réessayez.',
+  'panel.retryAnalysis': 'Relancer l’analyse',
+  'panel.uploadDifferentFile': 'Importer un autre fichier',
+  'panel.rejectedTitle': 'Contenu non approuvé',
+  'panel.rejectedPreCheck': 'Votre fichier ne respecte pas nos exigences d’import.',
+  'panel.rejectedReviewer': "Un membre de notre équipe a examiné votre contenu et n'a pas pu l'approuver.",
+  'panel.rejectedAi': 'Notre IA a détecté des problèmes dans le contenu importé.',
+  'panel.rejectionReasons': 'Motifs du refus :',
+  'panel.flaggedCategories': 'Catégories signalées',
+  'panel.rejectedGuidance': 'Veuillez importer une autre photo ou vidéo conforme à nos règles.',
+  'panel.uploadDifferentImage': 'Importer une autre image',
+  'panel.approvedTitle': 'Contenu approuvé',
+  'panel.approvedBody': 'Votre contenu a passé toutes nos vérifications et peut être publié !',
+  'panel.treatmentType': 'Type de prestation (visible par les clients)',
+  'panel.tags': 'Tags',
+  'panel.confidence': 'Confiance du modèle',
+  'panel.moderationChecks': 'Contrôles de modération',
+
+  'reviewNote.overturned': "Contestation acceptée : l'équipe Treatwell a approuvé votre contenu",
+  'reviewNote.upheld': "Contestation examinée : l'équipe Treatwell a maintenu la décision initiale",
+  'reviewNote.reviewed': "Vérifié par l'équipe Treatwell",
+
+  'cache.badge': 'Résultat en cache',
+  'cache.title': 'Repris d’une analyse précédente du même fichier',
+  'cache.titleWithModel': 'Repris d’une analyse précédente du même fichier ({model}, prompt v{version})',
+
+  'appeal.open': 'Contester cette décision',
+  'appeal.intro': 'Vous pensez que nous nous sommes trompés ? Expliquez-nous pourquoi et un membre de notre équipe réexaminera votre contenu.',
+  'appeal.placeholder': "ex. La bouteille à l'arrière-plan est un produit capillaire, pas de l'alcool.",
+  'appeal.label': 'Pourquoi cette décision devrait-elle être modifiée ?',
+  'appeal.submit': 'Envoyer la contestation',
+  'appeal.error.empty': 'Veuillez expliquer pourquoi cette décision devrait être modifiée.',
+  'appeal.error.tooLong': 'Votre explication doit faire moins de {max} caractères.',
+  'appeal.error.alreadyAppealed': 'Cette décision a déjà été contestée.',
+  'appeal.error.failed': 'Votre contestation n’a pas pu être envoyée. Veuillez réessayer.',
+
+  'treatment.label': 'Prestation affichée aux clients',
+  'treatment.choose': 'Choisir une prestation',
+  'treatment.search': 'Rechercher une prestation…',
+  'treatment.empty': 'Aucune prestation trouvée.',
+  'treatment.suggestions': 'Suggestions de l’IA',
+  'treatment.all': 'Toutes les prestations',
+  'treatment.match': 'Correspondance {score}',
+  'treatment.chosenByAi': 'Choisi par l’IA',
+  'treatment.chosenByPartner': 'Choisi par vous',
+
+  'tags.empty': 'Aucun tag pour l’instant. Les tags aident les clients à trouver votre story.',
+  'tags.add': 'Ajouter un tag',
+  'tags.search': 'Rechercher un tag…',
+  'tags.noMatch': 'Aucun tag correspondant.',
+  'tags.remove': 'Retirer le tag {tag}',
+
+  'history.title': 'Historique des vérifications et contestations',
+  'history.appealPending': 'Contestation en cours d’examen',
+  'history.reviewPending': 'En attente de vérification',
+  'history.appealApproved': 'Contestation acceptée',
+  'history.appealRejected': 'Contestation refusée',
+  'history.approved': 'Approuvé par l’équipe',
+  'history.rejected': 'Refusé par l’équipe',
+  'history.loadFailed': 'Votre historique de vérifications et de contestations n’a pas pu être chargé.',
+  'history.retry': 'Réessayer',
+
+  'editor.titleImage': 'Ajuster votre image',
+  'editor.titleVideo': 'Ajuster votre vidéo',
+  'editor.introImage': 'Les stories sont affichées au format vertical 9:16.',
+  'editor.introVideo': 'Les stories sont affichées au format vertical 9:16 et les vidéos peuvent durer jusqu’à {max} secondes.',
+  'editor.remaining_one': 'Encore {count} fichier à vérifier après celui-ci.',
+  'editor.remaining_other': 'Encore {count} fichiers à vérifier après celui-ci.',
+  'editor.discard': 'Supprimer ce fichier',
+  'editor.imageAlt': 'Fichier en cours de modification',
+  'editor.cropPosition': 'Position du recadrage',
+  'editor.cropPositionValue': '{x} % depuis la gauche, {y} % depuis le haut',
+  'editor.cropSize': 'Taille du recadrage',
+  'editor.trim': 'Découper',
+  'editor.trimRange': '{start} s – {end} s ({length} s)',
+  'editor.trimLabel': 'Début et fin du découpage',
+  'editor.useOriginal': 'Utiliser l’original',
+  'editor.recording': 'Enregistrement de la vidéo…',
+  'editor.saving': 'Sauvegarde…',
+  'editor.apply': 'Appliquer',
+  'editor.error.unreadable': 'Ce fichier n’a pas pu être ouvert pour modification. Enregistrez-le à nouveau depuis votre appareil photo ou votre application de retouche.',
+  'editor.error.encodeFailed': 'Votre image modifiée n’a pas pu être enregistrée. Veuillez réessayer.',
+  'editor.error.recordingUnsupported': 'Votre navigateur ne peut pas enregistrer de vidéo, ce clip ne peut donc pas être modifié ici. Essayez un autre navigateur ou raccourcissez-le avant de l’importer.',
+  'editor.error.recordingStalled': 'L’enregistrement de votre vidéo modifiée s’est interrompu. Gardez cet onglet ouvert pendant l’enregistrement et réessayez.',
+  'editor.error.failed': 'Vos modifications n’ont pas pu être enregistrées. Veuillez réessayer.',
+
+  'storyPreview.title': 'Aperçu et publication',
+  'storyPreview.contentStatus': 'Statut du contenu',
+  'storyPreview.content': 'Contenu',
+  'storyPreview.pendingValidation': 'Validation en attente',
+  'storyPreview.approved': 'Approuvé',
+  'storyPreview.notApproved': 'Non approuvé',
+  'storyPreview.mobileInfo': 'L’aperçu montre comment les clients verront vos stories dans l’application Treatwell',
+  'storyPreview.backToEdit': 'Retour à l’édition',
+  'storyPreview.terms': 'En publiant, vous acceptez les {link} de Treatwell',
+  'storyPreview.termsLink': 'Conditions générales',
+  'storyPreview.storyAlt': 'Contenu de la story',
+  'storyPreview.book': 'Réserver avec moi',
+  'storyPreview.swipeUp': 'Balayez vers le haut pour réserver',
+  'storyPreview.share': 'Partager',
+  'storyPreview.mobileLabel': 'Aperçu de l’application',
+};
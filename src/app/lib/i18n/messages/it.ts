@@ -0,0 +1,246 @@
+import type { Messages } from '../index';
+
+export const it: Messages = {
+  'locale.label': 'Lingua',
+
+  'common.cancel': 'Annulla',
+  'common.preview': 'Anteprima',
+  'common.publish': 'Pubblica',
+  'common.done': 'Fatto',
+  'common.dismiss': 'Chiudi',
+  'common.image': 'Immagine',
+  'common.video': 'Video',
+
+  'success.title': '🎉 Le tue storie stanno per essere pubblicate!',
+  'success.body': 'Fantastico! Le tue storie appariranno sul marketplace di Treatwell tra pochi minuti e inizieranno ad attirare clienti.',
+  'success.trackTitle': 'Monitora i tuoi risultati',
+  'success.trackBody': 'Visita la sezione {reports} per vedere quanti clienti hanno visto le tue storie e prenotato. Guarda crescere il tuo coinvolgimento! 📈',
+  'success.reports': 'Report',
+
+  'matching.title': 'Abbinamento clienti con IA',
+  'matching.body': 'Le tue storie verranno mostrate ai clienti con più probabilità di prenotare i tuoi servizi.',
+  'matching.reach': '{highlight} in base a preferenze, posizione e cronologia delle prenotazioni.',
+  'matching.reachHighlight': 'Raggiungi nuovi clienti',
+
+  'upload.title': 'Story Showcase - Carica contenuti',
+  'upload.progress': '{done} di {total} analizzati',
+  'upload.progressQueued': '{count} in coda',
+  'upload.introTitle': 'Pubblica sul marketplace di Treatwell',
+  'upload.introBody': 'I tuoi contenuti verranno mostrati a migliaia di potenziali clienti che navigano su Treatwell. Storie di qualità ti aiutano ad attirare nuovi clienti e a mostrare il tuo lavoro migliore a chi sta cercando un trattamento da prenotare.',
+  'upload.dropPrompt': 'Fai clic per caricare o trascina qui i file',
+  'upload.dropActive': 'Rilascia per caricare',
+  'upload.formats': 'Immagini (JPG, PNG, WebP, HEIC) o video (MP4, MOV, max 10 secondi) - Max 50 MB',
+  'upload.limit': 'Seleziona più file per creare una storia con un massimo di {max} slide',
+  'upload.addMore': 'Aggiungi altre slide',
+  'upload.addMoreActive': 'Rilascia per aggiungere slide',
+
+  'guidelines.title': '📋 Linee guida per il caricamento',
+  'guidelines.vertical': 'Formato verticale',
+  'guidelines.verticalBody': 'I contenuti devono essere in orientamento verticale (consigliato 9:16)',
+  'guidelines.quality': 'Alta qualità',
+  'guidelines.qualityBody': 'Carica immagini e video nitidi, ben illuminati e ad alta risoluzione',
+  'guidelines.contact': 'Nessun recapito',
+  'guidelines.contactBody': 'Non includere numeri di telefono, indirizzi email o profili social esterni',
+  'guidelines.content': 'Solo contenuti appropriati',
+  'guidelines.contentBody': 'Niente procedure mediche, nudità o contenuti sensibili',
+
+  'notice.converting_one': 'Conversione di {count} foto in JPG…',
+  'notice.converting_other': 'Conversione di {count} foto in JPG…',
+  'notice.unsupported_one': '{files} non è un tipo di file supportato. Carica immagini JPG, PNG, WebP o HEIC, oppure video MP4 o MOV.',
+  'notice.unsupported_other': '{files} non sono tipi di file supportati. Carica immagini JPG, PNG, WebP o HEIC, oppure video MP4 o MOV.',
+  'notice.overLimit_one': 'Una storia può contenere al massimo {max} slide, quindi {count} file non è stato aggiunto.',
+  'notice.overLimit_other': 'Una storia può contenere al massimo {max} slide, quindi {count} file non sono stati aggiunti.',
+  'notice.cancelled': "L'analisi è stata annullata alla chiusura della finestra di caricamento.",
+  'notice.conversionFailed': 'Non è stato possibile convertire {file} in questo browser. Esportalo in JPG e riprova.',
+
+  'footer.ready_one': '{count} elemento pronto per la pubblicazione',
+  'footer.ready_other': '{count} elementi pronti per la pubblicazione',
+  'footer.analyzing': '{count} in analisi',
+  'footer.awaitingReview': '{count} in attesa di revisione',
+  'footer.underAppeal': '{count} in ricorso',
+  'footer.slides': '{count} / {max} slide',
+
+  'media.previewAlt': 'Anteprima del caricamento',
+  'media.queued': 'In coda',
+  'media.analyzing': 'Analisi in corso...',
+  'media.awaitingReview': 'In attesa di revisione manuale',
+  'media.appealUnderReview': 'Ricorso in revisione',
+  'media.rejected': 'Contenuto rifiutato',
+  'media.contactFound': 'Recapiti rilevati',
+  'media.contactFoundList': 'Recapiti rilevati: {items}',
+
+  'order.title': 'Ordine delle slide',
+  'order.hint': 'Trascina per riordinare, oppure seleziona una slide e usa i tasti freccia',
+  'order.listLabel': 'Slide della storia',
+  'order.moved': 'Slide spostata in posizione {position} di {total}',
+  'order.slideImage': 'Slide {position} di {total}, immagine',
+  'order.slideVideo': 'Slide {position} di {total}, video',
+  'order.roleDescription': 'slide riordinabile',
+
+  'flag.nudity': 'Nudità / Contenuti sessuali',
+  'flag.profanity': 'Volgarità / Testo offensivo',
+  'flag.violence': 'Violenza / Sangue',
+  'flag.illegalItems': 'Droghe / Armi / Oggetti illegali',
+  'flag.contactInfo': 'Recapiti',
+  'flag.offTopicContent': 'Contenuto non pertinente',
+  'flag.flagged': 'Segnalato',
+  'flag.clear': 'Conforme',
+  'flag.at': 'a {times}',
+  'flag.second': '{seconds} s',
+
+  'reason.nudity': 'Le storie non possono mostrare nudità o contenuti sessuali. Nei trattamenti per il corpo le parti intime devono restare coperte.',
+  'reason.profanity': 'Le storie non possono contenere parolacce o linguaggio offensivo, nemmeno su insegne o prodotti.',
+  'reason.violence': 'Le storie non possono mostrare violenza, sangue o ferite esplicite.',
+  'reason.illegalItems': 'Le storie non possono mostrare droghe, armi o altri oggetti illegali.',
+  'reason.contactInfo': 'Le storie non possono includere numeri di telefono, email, siti web o profili social. I clienti prenotano tramite Treatwell.',
+  'reason.offTopicContent': 'Le storie devono mostrare un trattamento, un risultato o un centro di una delle categorie di Treatwell.',
+  'reason.contactDetails': 'Sono visibili dei recapiti: {items}.',
+
+  'contactKind.phone': 'numero di telefono',
+  'contactKind.email': 'indirizzo email',
+  'contactKind.url': 'sito web',
+  'contactKind.handle': 'profilo social',
+
+  'preCheck.title': 'Requisiti di caricamento',
+  'preCheck.pass': 'OK',
+  'preCheck.warn': 'Avviso',
+  'preCheck.fail': 'Non superato',
+  'preCheck.rule.fileSize': 'Dimensione del file',
+  'preCheck.rule.fileType': 'Tipo di file',
+  'preCheck.rule.duration': 'Durata del video',
+  'preCheck.rule.resolution': 'Risoluzione',
+  'preCheck.rule.aspectRatio': 'Proporzioni',
+  'preCheck.fileSize.ok': '{size} MB (max 50 MB)',
+  'preCheck.fileSize.tooLarge': '{size} MB supera il limite di 50 MB.',
+  'preCheck.fileType.image': 'Immagine JPG / PNG / WebP',
+  'preCheck.fileType.video': 'Video MP4 / MOV',
+  'preCheck.fileType.invalid': 'Questo file non è un JPG, PNG, WebP, MP4 o MOV valido.',
+  'preCheck.duration.ok': '{duration} s (max {max} s)',
+  'preCheck.duration.tooLong': '{duration} s supera il limite di {max} secondi.',
+  'preCheck.duration.unknown': 'Non è stato possibile determinare la durata del video.',
+  'preCheck.resolution.ok': '{dimensions}',
+  'preCheck.resolution.low': '{dimensions} potrebbe risultare sfocato (consigliati almeno {recommended} px).',
+  'preCheck.resolution.tooSmall': '{dimensions} è troppo piccolo (min {min} px sul lato corto).',
+  'preCheck.resolution.unreadableImage': 'Il tuo browser non è riuscito a leggere questa immagine.',
+  'preCheck.resolution.unreadableVideo': 'Il tuo browser non è riuscito a leggere questo video.',
+  'preCheck.aspectRatio.ok': 'Verticale 9:16',
+  'preCheck.aspectRatio.letterboxed': '{ratio}:1 è verticale ma non 9:16, quindi verranno aggiunte delle bande.',
+  'preCheck.aspectRatio.landscape': '{ratio}:1 non è verticale. Le storie devono essere in formato verticale (consigliato 9:16).',
+
+  'panel.queuedTitle': "In attesa dell'analisi",
+  'panel.queuedBody': 'Analizziamo fino a {count} slide alla volta. Questa partirà appena si libera un posto.',
+  'panel.analyzingTitle': 'Analisi IA in corso',
+  'panel.analyzingBody': 'La nostra IA sta analizzando il contenuto per verificare che rispetti le linee guida e individuare il pubblico migliore per la tua storia.',
+  'panel.reviewTitle': 'In attesa di revisione manuale',
+  'panel.reviewBody': 'La nostra IA non ha potuto decidere con certezza, quindi un membro del team controllerà questo contenuto. Nel frattempo puoi continuare a lavorare alla tua storia.',
+  'panel.appealedTitle': 'Ricorso inviato',
+  'panel.appealedBody': 'Un membro del nostro team riesaminerà la decisione originale insieme alla tua spiegazione. Nel frattempo puoi continuare a lavorare alla tua storia.',
+  'panel.appealedExplanation': 'La tua spiegazione:',
+  'panel.errorTitle': 'Analisi non riuscita',
+  'panel.errorFallback': 'Si è verificato un errore imprevisto. Riprova.',
+  'panel.error.busy': 'Al momento stiamo analizzando molti contenuti. Attendi un attimo e riprova.',
+  'panel.error.unavailable': 'I controlli sui contenuti non sono momentaneamente disponibili. Riprova tra qualche minuto.',
+  'panel.error.tooLarge': 'Questo file è troppo grande per essere analizzato. Carica una versione più leggera.',
+  'panel.error.rejected': 'Non è stato possibile analizzare questo file. Riprova o carica un file diverso.',
+  'panel.error.offline': 'Non riusciamo a raggiungere i nostri server. Controlla la connessione e riprova.',
+  'panel.retryAnalysis': "Riprova l'analisi",
+  'panel.uploadDifferentFile': 'Carica un altro file',
+  'panel.rejectedTitle': 'Contenuto non approvato',
+  'panel.rejectedPreCheck': 'Il tuo file non soddisfa i requisiti di caricamento.',
+  'panel.rejectedReviewer': 'Un membro del nostro team ha esaminato il contenuto e non ha potuto approvarlo.',
+  'panel.rejectedAi': 'La nostra IA ha rilevato problemi nel contenuto caricato.',
+  'panel.rejectionReasons': 'Motivi del rifiuto:',
+  'panel.flaggedCategories': 'Categorie segnalate',
+  'panel.rejectedGuidance': "Carica un'altra foto o un altro video conforme alle linee guida.",
+  'panel.uploadDifferentImage': "Carica un'altra immagine",
+  'panel.approvedTitle': 'Contenuto approvato',
+  'panel.approvedBody': 'Il tuo contenuto ha superato tutti i controlli ed è pronto per la pubblicazione!',
+  'panel.treatmentType': 'Tipo di trattamento (visibile ai clienti)',
+  'panel.tags': 'Tag',
+  'panel.confidence': 'Affidabilità del modello',
+  'panel.moderationChecks': 'Controlli di moderazione',
+
+  'reviewNote.overturned': 'Ricorso accolto: il team Treatwell ha approvato il tuo contenuto',
+  'reviewNote.upheld': 'Ricorso esaminato: il team Treatwell ha confermato la decisione originale',
+  'reviewNote.reviewed': 'Revisionato dal team Treatwell',
+
+  'cache.badge': 'Risultato in cache',
+  'cache.title': "Riutilizzato da un'analisi precedente dello stesso file",
+  'cache.titleWithModel': "Riutilizzato da un'analisi precedente dello stesso file ({model}, prompt v{version})",
+
+  'appeal.open': 'Presenta ricorso',
+  'appeal.intro': 'Pensi che abbiamo sbagliato? Spiegaci perché e un membro del nostro team lo riesaminerà.',
+  'appeal.placeholder': 'es. La bottiglia sullo sfondo è un prodotto per capelli, non alcol.',
+  'appeal.label': 'Perché questa decisione dovrebbe essere cambiata?',
+  'appeal.submit': 'Invia ricorso',
+  'appeal.error.empty': 'Spiega perché questa decisione dovrebbe essere modificata.',
+  'appeal.error.tooLong': 'La tua spiegazione deve restare sotto i {max} caratteri.',
+  'appeal.error.alreadyAppealed': 'Per questa decisione è già stato presentato un ricorso.',
+  'appeal.error.failed': 'Non è stato possibile inviare il ricorso. Riprova.',
+
+  'treatment.label': 'Trattamento mostrato ai clienti',
+  'treatment.choose': 'Scegli un trattamento',
+  'treatment.search': 'Cerca trattamenti…',
+  'treatment.empty': 'Nessun trattamento trovato.',
+  'treatment.suggestions': "Suggerimenti dell'IA",
+  'treatment.all': 'Tutti i trattamenti',
+  'treatment.match': 'Corrispondenza {score}',
+  'treatment.chosenByAi': "Scelto dall'IA",
+  'treatment.chosenByPartner': 'Scelto da te',
+
+  'tags.empty': 'Ancora nessun tag. I tag aiutano i clienti a trovare la tua storia.',
+  'tags.add': 'Aggiungi tag',
+  'tags.search': 'Cerca tag…',
+  'tags.noMatch': 'Nessun tag corrispondente.',
+  'tags.remove': 'Rimuovi il tag {tag}',
+
+  'history.title': 'Cronologia di revisioni e ricorsi',
+  'history.appealPending': 'Ricorso in revisione',
+  'history.reviewPending': 'In attesa di revisione',
+  'history.appealApproved': 'Ricorso accolto',
+  'history.appealRejected': 'Ricorso respinto',
+  'history.approved': 'Approvato dal team',
+  'history.rejected': 'Rifiutato dal team',
+  'history.loadFailed': 'Non è stato possibile caricare la cronologia di revisioni e ricorsi.',
+  'history.retry': 'Riprova',
+
+  'editor.titleImage': "Regola l'immagine",
+  'editor.titleVideo': 'Regola il video',
+  'editor.introImage': 'Le storie vengono mostrate in verticale 9:16.',
+  'editor.introVideo': 'Le storie vengono mostrate in verticale 9:16 e i video possono durare fino a {max} secondi.',
+  'editor.remaining_one': 'Ancora {count} file da controllare dopo questo.',
+  'editor.remaining_other': 'Ancora {count} file da controllare dopo questo.',
+  'editor.discard': 'Scarta questo file',
+  'editor.imageAlt': 'File in modifica',
+  'editor.cropPosition': 'Posizione del ritaglio',
+  'editor.cropPositionValue': '{x}% da sinistra, {y}% dall’alto',
+  'editor.cropSize': 'Dimensione del ritaglio',
+  'editor.trim': 'Taglia',
+  'editor.trimRange': '{start} s – {end} s ({length} s)',
+  'editor.trimLabel': 'Inizio e fine del taglio',
+  'editor.useOriginal': "Usa l'originale",
+  'editor.recording': 'Registrazione…',
+  'editor.saving': 'Salvataggio…',
+  'editor.apply': 'Applica',
+  'editor.error.unreadable': 'Non è stato possibile aprire questo file per la modifica. Salvalo di nuovo dalla fotocamera o dalla tua app di editing.',
+  'editor.error.encodeFailed': 'Non è stato possibile salvare la tua immagine modificata. Riprova.',
+  'editor.error.recordingUnsupported': 'Il tuo browser non può registrare video, quindi questa clip non può essere modificata qui. Prova con un altro browser o tagliala prima di caricarla.',
+  'editor.error.recordingStalled': 'La registrazione del tuo video modificato si è interrotta. Tieni aperta questa scheda durante la registrazione e riprova.',
+  'editor.error.failed': 'Non è stato possibile salvare le tue modifiche. Riprova.',
+
+  'storyPreview.title': 'Anteprima e pubblicazione',
+  'storyPreview.contentStatus': 'Stato dei contenuti',
+  'storyPreview.content': 'Contenuto',
+  'storyPreview.pendingValidation': 'In attesa di convalida',
+  'storyPreview.approved': 'Approvato',
+  'storyPreview.notApproved': 'Non approvato',
+  'storyPreview.mobileInfo': "L'anteprima mostra come i clienti vedranno le tue storie nell'app Treatwell",
+  'storyPreview.backToEdit': 'Torna alla modifica',
+  'storyPreview.terms': 'Pubblicando accetti i {link} di Treatwell',
+  'storyPreview.termsLink': 'Termini e condizioni',
+  'storyPreview.storyAlt': 'Contenuto della storia',
+  'storyPreview.book': 'Prenota con me',
+  'storyPreview.swipeUp': "Scorri verso l'alto per prenotare",
+  'storyPreview.share': 'Condividi',
+  'storyPreview.mobileLabel': "Anteprima dell'app",
+};
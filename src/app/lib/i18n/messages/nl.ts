@@ -0,0 +1,246 @@
+import type { Messages } from '../index';
+
+export const nl: Messages = {
+  'locale.label': 'Taal',
+
+  'common.cancel': 'Annuleren',
+  'common.preview': 'Voorbeeld',
+  'common.publish': 'Publiceren',
+  'common.done': 'Klaar',
+  'common.dismiss': 'Sluiten',
+  'common.image': 'Afbeelding',
+  'common.video': 'Video',
+
+  'success.title': '🎉 Je stories gaan live!',
+  'success.body': 'Geweldig! Je stories verschijnen binnen een paar minuten op de Treatwell-marktplaats en trekken dan klanten aan.',
+  'success.trackTitle': 'Volg je resultaten',
+  'success.trackBody': 'Ga naar {reports} om te zien hoeveel klanten je stories hebben bekeken en hebben geboekt. Zie je betrokkenheid groeien! 📈',
+  'success.reports': 'Rapporten',
+
+  'matching.title': 'Klantmatching met AI',
+  'matching.body': 'Je stories worden getoond aan klanten die je diensten het meest waarschijnlijk boeken.',
+  'matching.reach': '{highlight} op basis van hun voorkeuren, locatie en boekingsgeschiedenis.',
+  'matching.reachHighlight': 'Bereik nieuwe klanten',
+
+  'upload.title': 'Story Showcase - Content uploaden',
+  'upload.progress': '{done} van {total} geanalyseerd',
+  'upload.progressQueued': '{count} in de wachtrij',
+  'upload.introTitle': 'Publiceren op de Treatwell-marktplaats',
+  'upload.introBody': 'Je content wordt getoond aan duizenden potentiële klanten op Treatwell. Goede stories helpen je nieuwe klanten aan te trekken en je beste werk te laten zien aan mensen die een behandeling willen boeken.',
+  'upload.dropPrompt': 'Klik om te uploaden of sleep bestanden hierheen',
+  'upload.dropActive': 'Loslaten om te uploaden',
+  'upload.formats': "Afbeeldingen (JPG, PNG, WebP, HEIC) of video's (MP4, MOV, max. 10 seconden) - Max. 50 MB",
+  'upload.limit': 'Selecteer meerdere bestanden om een story van maximaal {max} slides te maken',
+  'upload.addMore': 'Meer slides toevoegen',
+  'upload.addMoreActive': 'Loslaten om slides toe te voegen',
+
+  'guidelines.title': '📋 Uploadrichtlijnen',
+  'guidelines.vertical': 'Verticaal formaat',
+  'guidelines.verticalBody': 'Content moet staand/verticaal zijn (verhouding 9:16 aanbevolen)',
+  'guidelines.quality': 'Hoge kwaliteit',
+  'guidelines.qualityBody': "Upload scherpe, goed belichte afbeeldingen en video's in hoge resolutie",
+  'guidelines.contact': 'Geen contactgegevens',
+  'guidelines.contactBody': 'Vermeld geen telefoonnummers, e-mailadressen of externe social-media-accounts',
+  'guidelines.content': 'Alleen gepaste content',
+  'guidelines.contentBody': 'Geen medische ingrepen, naakt of gevoelige content',
+
+  'notice.converting_one': '{count} foto wordt omgezet naar JPG…',
+  'notice.converting_other': "{count} foto's worden omgezet naar JPG…",
+  'notice.unsupported_one': "{files} is geen ondersteund bestandstype. Upload JPG-, PNG-, WebP- of HEIC-afbeeldingen, of MP4- of MOV-video's.",
+  'notice.unsupported_other': "{files} zijn geen ondersteunde bestandstypen. Upload JPG-, PNG-, WebP- of HEIC-afbeeldingen, of MP4- of MOV-video's.",
+  'notice.overLimit_one': 'Een story kan maximaal {max} slides bevatten, dus {count} bestand is niet toegevoegd.',
+  'notice.overLimit_other': 'Een story kan maximaal {max} slides bevatten, dus {count} bestanden zijn niet toegevoegd.',
+  'notice.cancelled': 'De analyse is geannuleerd toen het uploadvenster werd gesloten.',
+  'notice.conversionFailed': '{file} kon in deze browser niet worden omgezet. Exporteer het als JPG en probeer het opnieuw.',
+
+  'footer.ready_one': '{count} item klaar om te publiceren',
+  'footer.ready_other': '{count} items klaar om te publiceren',
+  'footer.analyzing': '{count} worden geanalyseerd',
+  'footer.awaitingReview': '{count} wachten op beoordeling',
+  'footer.underAppeal': '{count} in bezwaar',
+  'footer.slides': '{count} / {max} slides',
+
+  'media.previewAlt': 'Voorbeeld van upload',
+  'media.queued': 'In de wachtrij',
+  'media.analyzing': 'Bezig met analyseren...',
+  'media.awaitingReview': 'Wacht op handmatige beoordeling',
+  'media.appealUnderReview': 'Bezwaar wordt beoordeeld',
+  'media.rejected': 'Content afgewezen',
+  'media.contactFound': 'Contactgegevens gevonden',
+  'media.contactFoundList': 'Contactgegevens gevonden: {items}',
+
+  'order.title': 'Volgorde van slides',
+  'order.hint': 'Sleep om de volgorde te wijzigen, of selecteer een slide en gebruik de pijltjestoetsen',
+  'order.listLabel': 'Slides van de story',
+  'order.moved': 'Slide verplaatst naar positie {position} van {total}',
+  'order.slideImage': 'Slide {position} van {total}, afbeelding',
+  'order.slideVideo': 'Slide {position} van {total}, video',
+  'order.roleDescription': 'verplaatsbare slide',
+
+  'flag.nudity': 'Naakt / Seksuele content',
+  'flag.profanity': 'Grof taalgebruik / Beledigende tekst',
+  'flag.violence': 'Geweld / Bloed',
+  'flag.illegalItems': 'Drugs / Wapens / Illegale items',
+  'flag.contactInfo': 'Contactgegevens',
+  'flag.offTopicContent': 'Niet-relevante content',
+  'flag.flagged': 'Gemarkeerd',
+  'flag.clear': 'In orde',
+  'flag.at': 'op {times}',
+  'flag.second': '{seconds} s',
+
+  'reason.nudity': 'Stories mogen geen naakt of seksuele content tonen. Bij lichaamsbehandelingen moeten intieme zones bedekt blijven.',
+  'reason.profanity': 'Stories mogen geen scheldwoorden of beledigende taal bevatten, ook niet op borden of producten.',
+  'reason.violence': 'Stories mogen geen geweld, bloed of expliciete verwondingen tonen.',
+  'reason.illegalItems': 'Stories mogen geen drugs, wapens of andere illegale items tonen.',
+  'reason.contactInfo': 'Stories mogen geen telefoonnummers, e-mailadressen, websites of social-media-accounts bevatten. Klanten boeken via Treatwell.',
+  'reason.offTopicContent': 'Stories moeten een behandeling, resultaat of salon laten zien uit een van de categorieën op Treatwell.',
+  'reason.contactDetails': 'Er zijn contactgegevens zichtbaar: {items}.',
+
+  'contactKind.phone': 'telefoonnummer',
+  'contactKind.email': 'e-mailadres',
+  'contactKind.url': 'website',
+  'contactKind.handle': 'social-media-account',
+
+  'preCheck.title': 'Uploadvereisten',
+  'preCheck.pass': 'In orde',
+  'preCheck.warn': 'Waarschuwing',
+  'preCheck.fail': 'Mislukt',
+  'preCheck.rule.fileSize': 'Bestandsgrootte',
+  'preCheck.rule.fileType': 'Bestandstype',
+  'preCheck.rule.duration': 'Videolengte',
+  'preCheck.rule.resolution': 'Resolutie',
+  'preCheck.rule.aspectRatio': 'Beeldverhouding',
+  'preCheck.fileSize.ok': '{size} MB (max. 50 MB)',
+  'preCheck.fileSize.tooLarge': '{size} MB is groter dan de limiet van 50 MB.',
+  'preCheck.fileType.image': 'JPG- / PNG- / WebP-afbeelding',
+  'preCheck.fileType.video': 'MP4- / MOV-video',
+  'preCheck.fileType.invalid': 'Dit is geen geldig JPG-, PNG-, WebP-, MP4- of MOV-bestand.',
+  'preCheck.duration.ok': '{duration} s (max. {max} s)',
+  'preCheck.duration.tooLong': '{duration} s is langer dan de limiet van {max} seconden.',
+  'preCheck.duration.unknown': 'De lengte van de video kon niet worden bepaald.',
+  'preCheck.resolution.ok': '{dimensions}',
+  'preCheck.resolution.low': '{dimensions} kan wazig ogen ({recommended} px of meer aanbevolen).',
+  'preCheck.resolution.tooSmall': '{dimensions} is te klein (min. {min} px aan de korte kant).',
+  'preCheck.resolution.unreadableImage': 'Je browser kon deze afbeelding niet lezen.',
+  'preCheck.resolution.unreadableVideo': 'Je browser kon deze video niet lezen.',
+  'preCheck.aspectRatio.ok': '9:16 verticaal',
+  'preCheck.aspectRatio.letterboxed': '{ratio}:1 is staand maar geen 9:16, dus er komen zwarte balken bij.',
+  'preCheck.aspectRatio.landscape': '{ratio}:1 is niet verticaal. Stories moeten staand zijn (9:16 aanbevolen).',
+
+  'panel.queuedTitle': 'Wacht op analyse',
+  'panel.queuedBody': 'We analyseren maximaal {count} slides tegelijk. Deze start zodra er plek vrij is.',
+  'panel.analyzingTitle': 'AI-analyse bezig',
+  'panel.analyzingBody': 'Onze AI analyseert je content om te controleren of die aan onze richtlijnen voldoet en om het beste publiek voor je story te vinden.',
+  'panel.reviewTitle': 'Wacht op handmatige beoordeling',
+  'panel.reviewBody': 'Onze AI kon geen zekere beslissing nemen, dus een teamlid controleert deze content. Je kunt intussen verder werken aan je story.',
+  'panel.appealedTitle': 'Bezwaar ingediend',
+  'panel.appealedBody': 'Een teamlid beoordeelt de oorspronkelijke beslissing opnieuw, samen met je toelichting. Je kunt intussen verder werken aan je story.',
+  'panel.appealedExplanation': 'Je toelichting:',
+  'panel.errorTitle': 'Analyse mislukt',
+  'panel.errorFallback': 'Er is een onverwachte fout opgetreden. Probeer het opnieuw.',
+  'panel.error.busy': 'Er worden op dit moment veel uploads geanalyseerd. Wacht even en probeer het opnieuw.',
+  'panel.error.unavailable': 'Onze contentcontrole is tijdelijk niet beschikbaar. Probeer het over een paar minuten opnieuw.',
+  'panel.error.tooLarge': 'Dit bestand is te groot om te analyseren. Upload een kleinere versie.',
+  'panel.error.rejected': 'Dit bestand kon niet worden geanalyseerd. Probeer het opnieuw of upload een ander bestand.',
+  'panel.error.offline': 'We kunnen onze servers niet bereiken. Controleer je verbinding en probeer het opnieuw.',
+  'panel.retryAnalysis': 'Analyse opnieuw proberen',
+  'panel.uploadDifferentFile': 'Ander bestand uploaden',
+  'panel.rejectedTitle': 'Content niet goedgekeurd',
+  'panel.rejectedPreCheck': 'Je bestand voldoet niet aan onze uploadvereisten.',
+  'panel.rejectedReviewer': 'Een teamlid heeft je content beoordeeld en kon deze niet goedkeuren.',
+  'panel.rejectedAi': 'Onze AI heeft problemen gevonden in je geüploade content.',
+  'panel.rejectionReasons': 'Redenen voor afwijzing:',
+  'panel.flaggedCategories': 'Gemarkeerde categorieën',
+  'panel.rejectedGuidance': 'Upload een andere foto of video die aan onze richtlijnen voldoet.',
+  'panel.uploadDifferentImage': 'Andere afbeelding uploaden',
+  'panel.approvedTitle': 'Content goedgekeurd',
+  'panel.approvedBody': 'Je content heeft alle controles doorstaan en is klaar om te publiceren!',
+  'panel.treatmentType': 'Type behandeling (zichtbaar voor klanten)',
+  'panel.tags': 'Tags',
+  'panel.confidence': 'Zekerheid van het model',
+  'panel.moderationChecks': 'Moderatiecontroles',
+
+  'reviewNote.overturned': 'Bezwaar toegekend: het Treatwell-team heeft je content goedgekeurd',
+  'reviewNote.upheld': 'Bezwaar beoordeeld: het Treatwell-team handhaaft de oorspronkelijke beslissing',
+  'reviewNote.reviewed': 'Beoordeeld door het Treatwell-team',
+
+  'cache.badge': 'Resultaat uit cache',
+  'cache.title': 'Hergebruikt uit een eerdere analyse van hetzelfde bestand',
+  'cache.titleWithModel': 'Hergebruikt uit een eerdere analyse van hetzelfde bestand ({model}, prompt v{version})',
+
+  'appeal.open': 'Bezwaar maken',
+  'appeal.intro': 'Denk je dat we het mis hebben? Vertel ons waarom en een teamlid bekijkt het opnieuw.',
+  'appeal.placeholder': 'bijv. De fles op de achtergrond is een haarproduct, geen alcohol.',
+  'appeal.label': 'Waarom moet deze beslissing worden gewijzigd?',
+  'appeal.submit': 'Bezwaar indienen',
+  'appeal.error.empty': 'Leg uit waarom deze beslissing moet worden gewijzigd.',
+  'appeal.error.tooLong': 'Houd je uitleg onder de {max} tekens.',
+  'appeal.error.alreadyAppealed': 'Tegen deze beslissing is al bezwaar gemaakt.',
+  'appeal.error.failed': 'Je bezwaar kon niet worden verzonden. Probeer het opnieuw.',
+
+  'treatment.label': 'Behandeling die klanten zien',
+  'treatment.choose': 'Kies een behandeling',
+  'treatment.search': 'Behandelingen zoeken…',
+  'treatment.empty': 'Geen behandeling gevonden.',
+  'treatment.suggestions': 'AI-suggesties',
+  'treatment.all': 'Alle behandelingen',
+  'treatment.match': '{score} overeenkomst',
+  'treatment.chosenByAi': 'Gekozen door AI',
+  'treatment.chosenByPartner': 'Gekozen door jou',
+
+  'tags.empty': 'Nog geen tags. Tags helpen klanten je story te vinden.',
+  'tags.add': 'Tag toevoegen',
+  'tags.search': 'Tags zoeken…',
+  'tags.noMatch': 'Geen overeenkomende tag.',
+  'tags.remove': 'Tag {tag} verwijderen',
+
+  'history.title': 'Geschiedenis van beoordelingen en bezwaren',
+  'history.appealPending': 'Bezwaar wordt beoordeeld',
+  'history.reviewPending': 'Wacht op beoordeling',
+  'history.appealApproved': 'Bezwaar toegekend',
+  'history.appealRejected': 'Bezwaar afgewezen',
+  'history.approved': 'Goedgekeurd door beoordelaar',
+  'history.rejected': 'Afgewezen door beoordelaar',
+  'history.loadFailed': 'Je geschiedenis van beoordelingen en bezwaren kon niet worden geladen.',
+  'history.retry': 'Opnieuw proberen',
+
+  'editor.titleImage': 'Je afbeelding aanpassen',
+  'editor.titleVideo': 'Je video aanpassen',
+  'editor.introImage': 'Stories worden verticaal in 9:16 getoond.',
+  'editor.introVideo': "Stories worden verticaal in 9:16 getoond en video's mogen maximaal {max} seconden duren.",
+  'editor.remaining_one': 'Na dit bestand nog {count} bestand te controleren.',
+  'editor.remaining_other': 'Na dit bestand nog {count} bestanden te controleren.',
+  'editor.discard': 'Dit bestand verwijderen',
+  'editor.imageAlt': 'Upload die wordt bewerkt',
+  'editor.cropPosition': 'Positie van uitsnede',
+  'editor.cropPositionValue': '{x}% vanaf links, {y}% vanaf boven',
+  'editor.cropSize': 'Grootte van uitsnede',
+  'editor.trim': 'Inkorten',
+  'editor.trimRange': '{start} s – {end} s ({length} s)',
+  'editor.trimLabel': 'Begin en einde inkorten',
+  'editor.useOriginal': 'Origineel gebruiken',
+  'editor.recording': 'Opnemen…',
+  'editor.saving': 'Opslaan…',
+  'editor.apply': 'Toepassen',
+  'editor.error.unreadable': 'Dit bestand kon niet worden geopend om te bewerken. Sla het opnieuw op vanuit je camera- of bewerkingsapp.',
+  'editor.error.encodeFailed': 'Je bewerkte afbeelding kon niet worden opgeslagen. Probeer het opnieuw.',
+  'editor.error.recordingUnsupported': 'Je browser kan geen video opnemen, dus deze clip kan hier niet worden bewerkt. Probeer een andere browser of kort hem in voordat je hem uploadt.',
+  'editor.error.recordingStalled': 'Het opnemen van je bewerkte video is gestopt. Houd dit tabblad open tijdens het opnemen en probeer het opnieuw.',
+  'editor.error.failed': 'Je bewerking kon niet worden opgeslagen. Probeer het opnieuw.',
+
+  'storyPreview.title': 'Voorbeeld en publiceren',
+  'storyPreview.contentStatus': 'Status van content',
+  'storyPreview.content': 'Content',
+  'storyPreview.pendingValidation': 'Wacht op validatie',
+  'storyPreview.approved': 'Goedgekeurd',
+  'storyPreview.notApproved': 'Niet goedgekeurd',
+  'storyPreview.mobileInfo': 'Het voorbeeld laat zien hoe klanten je stories zien in de Treatwell-app',
+  'storyPreview.backToEdit': 'Terug naar bewerken',
+  'storyPreview.terms': 'Door te publiceren ga je akkoord met de {link} van Treatwell',
+  'storyPreview.termsLink': 'Algemene voorwaarden',
+  'storyPreview.storyAlt': 'Content van de story',
+  'storyPreview.book': 'Boek bij mij',
+  'storyPreview.swipeUp': 'Veeg omhoog om te boeken',
+  'storyPreview.share': 'Delen',
+  'storyPreview.mobileLabel': 'Voorbeeld in de app',
+};
@@ -0,0 +1,81 @@
+import { createContext, useContext, useEffect, useMemo, useState, Fragment, type ReactNode } from 'react';
+import {
+  DEFAULT_LOCALE,
+  formatDate,
+  formatNumber,
+  isLocale,
+  messageFor,
+  parseMessage,
+  resolveLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from './index';
+
+const STORAGE_KEY = 'treatwell-story.locale';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Like t, but placeholders can be elements, e.g. a link inside a sentence. */
+  rich: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | number, pattern?: string) => string;
+}
+
+// The partner's explicit choice wins, then the browser's languages
+function initialLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable, e.g. in private browsing
+  }
+  return typeof navigator === 'undefined' ? DEFAULT_LOCALE : resolveLocale(navigator.languages ?? [navigator.language]);
+}
+
+function createI18n(locale: Locale, setLocale: (locale: Locale) => void): I18n {
+  return {
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    rich: (key, params) =>
+      parseMessage(messageFor(locale, key)).map(({ text, param }, index) => (
+        <Fragment key={index}>{param === undefined ? text : params[param]}</Fragment>
+      )),
+    formatNumber: (value, options) => formatNumber(locale, value, options),
+    formatDate: (date, pattern) => formatDate(locale, date, pattern),
+  };
+}
+
+// Components rendered outside the provider get English, so they still work in isolation
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}));
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const i18n = useMemo(
+    () =>
+      createI18n(locale, next => {
+        setLocaleState(next);
+        try {
+          localStorage.setItem(STORAGE_KEY, next);
+        } catch {
+          // Best effort, see initialLocale
+        }
+      }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
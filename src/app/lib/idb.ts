@@ -0,0 +1,47 @@
+// Minimal IndexedDB access shared by the app's local persistence (review
+// queue, moderation cache). Each store is created in the upgrade handler.
+
+const DB_NAME = 'treatwell-story';
+const DB_VERSION = 2;
+
+export const STORES = {
+  reviewQueue: 'review-queue',
+  moderationCache: 'moderation-cache',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.reviewQueue)) {
+          db.createObjectStore(STORES.reviewQueue, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.moderationCache)) {
+          db.createObjectStore(STORES.moderationCache, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getStore(name: string, mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
@@ -0,0 +1,87 @@
+// Converts image formats the moderation pipeline can't take (HEIC/HEIF from
+// iPhones, AVIF) into JPEG in the browser, before preview and analysis.
+// Native decoding is tried first (Safari handles HEIC, most browsers AVIF);
+// HEIC/HEIF fall back to a WebAssembly decoder that is only loaded when needed.
+
+import { SUPPORTED_MEDIA_TYPES } from './media-validation';
+
+export type ConvertibleImageFormat = 'heic' | 'avif';
+
+// Formats we accept from the picker and convert on arrival
+export const CONVERTIBLE_IMAGE_TYPES = ['image/heic', 'image/heif', 'image/avif'];
+const CONVERTIBLE_EXTENSIONS = ['.heic', '.heif', '.avif'];
+
+/** Value for the file input's `accept`, including extensions for browsers that report HEIC with no MIME type. */
+export const UPLOAD_ACCEPT = [...SUPPORTED_MEDIA_TYPES, ...CONVERTIBLE_IMAGE_TYPES, ...CONVERTIBLE_EXTENSIONS].join(',');
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+/** Shown to partners as `notice.conversionFailed`; the message is for logs. */
+export class ImageConversionError extends Error {
+  constructor(readonly fileName: string) {
+    super(`"${fileName}" couldn't be decoded in this browser.`);
+    this.name = 'ImageConversionError';
+  }
+}
+
+/** Identifies HEIC/HEIF/AVIF from the ISO-BMFF "ftyp" brand, falling back to the MIME type and extension. */
+export async function detectConvertibleFormat(file: File): Promise<ConvertibleImageFormat | undefined> {
+  const bytes = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (String.fromCharCode(...bytes.slice(4, 8)) === 'ftyp') {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (HEIC_BRANDS.includes(brand)) return 'heic';
+    if (AVIF_BRANDS.includes(brand)) return 'avif';
+    // Any other ISO-BMFF brand is a video container, not an image
+    return undefined;
+  }
+
+  const name = file.name.toLowerCase();
+  if (file.type === 'image/avif' || name.endsWith('.avif')) return 'avif';
+  if (file.type === 'image/heic' || file.type === 'image/heif' || /\.hei[cf]$/.test(name)) return 'heic';
+  return undefined;
+}
+
+async function encodeJpeg(source: CanvasImageSource & { width: number; height: number }): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext('2d')!.drawImage(source, 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('The image could not be encoded.'))), 'image/jpeg', 0.92)
+  );
+}
+
+async function decodeNatively(file: File): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+      return await encodeJpeg(bitmap);
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+async function decodeHeic(file: File): Promise<Blob | null> {
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    // Image sequences (e.g. Live Photos) come back as several frames; the first is the still
+    return Array.isArray(result) ? result[0] : result;
+  } catch {
+    return null;
+  }
+}
+
+/** Returns a JPEG copy of a HEIC/HEIF/AVIF file, or throws ImageConversionError. */
+export async function convertToSupportedImage(file: File, format: ConvertibleImageFormat): Promise<File> {
+  const blob = (await decodeNatively(file)) ?? (format === 'heic' ? await decodeHeic(file) : null);
+  if (!blob) throw new ImageConversionError(file.name);
+  return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.jpg', {
+    type: 'image/jpeg',
+    lastModified: file.lastModified,
+  });
+}
@@ -0,0 +1,54 @@
+// Normalises still images before they are analysed or published. Redrawing
+// through a canvas bakes in the EXIF orientation and drops every metadata
+// block, GPS location included; the long side is capped so model payloads
+// stay small. Videos are left untouched and keep their original file.
+
+// A full-screen story slide is 1080×1920, so nothing larger is ever shown
+export const MAX_IMAGE_DIMENSION = 1920;
+const ENCODE_QUALITY = 0.88;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+export interface PreprocessOptions {
+  /** Longest side of the output, in pixels. */
+  maxDimension?: number;
+  /** JPEG/WebP quality between 0 and 1. */
+  quality?: number;
+}
+
+export async function preprocessImage(
+  file: File,
+  { maxDimension = MAX_IMAGE_DIMENSION, quality = ENCODE_QUALITY }: PreprocessOptions = {}
+): Promise<File> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    // Leave undecodable files alone so the pre-checks can report them properly
+    return file;
+  }
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // PNGs may have transparency, which JPEG would flatten to black
+    const preferred = file.type === 'image/png' ? 'image/webp' : 'image/jpeg';
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(b => (b ? resolve(b) : reject(new Error('The image could not be re-encoded.'))), preferred, quality)
+    );
+    // Browsers without a WebP encoder fall back to PNG, which is still metadata-free
+    const type = blob.type || preferred;
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${EXTENSIONS[type] ?? 'jpg'}`;
+    return new File([blob], name, { type, lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,51 @@
+// Concurrency-limited job queue. Used for moderation so a full story doesn't
+// fire every analysis at once and trip the proxy's rate limit.
+
+export interface EnqueueOptions {
+  /** Aborting while the job is still waiting removes it from the queue. */
+  signal?: AbortSignal;
+  /** Called when the job leaves the queue and starts running. */
+  onStart?: () => void;
+}
+
+export interface JobQueue {
+  enqueue<T>(job: () => Promise<T>, options?: EnqueueOptions): Promise<T>;
+}
+
+export function createJobQueue(concurrency: number): JobQueue {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  const startNext = () => {
+    if (running < concurrency) waiting.shift()?.();
+  };
+
+  return {
+    enqueue<T>(job: () => Promise<T>, { signal, onStart }: EnqueueOptions = {}) {
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+
+        const start = () => {
+          signal?.removeEventListener('abort', onAbort);
+          running += 1;
+          onStart?.();
+          job()
+            .then(resolve, reject)
+            .finally(() => {
+              running -= 1;
+              startNext();
+            });
+        };
+        const onAbort = () => {
+          const index = waiting.indexOf(start);
+          if (index !== -1) waiting.splice(index, 1);
+          reject(signal!.reason);
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting.push(start);
+        startNext();
+      });
+    },
+  };
+}
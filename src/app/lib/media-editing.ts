@@ -0,0 +1,250 @@
+// In-browser crop and trim for uploads, built on canvas and MediaRecorder so
+// nothing leaves the device before moderation.
+
+import {
+  MAX_VIDEO_DURATION_SECONDS,
+  TARGET_ASPECT_RATIO,
+  readMediaMetadata,
+  type MediaMetadata,
+} from './media-validation';
+
+/** Why an edit failed; the editor shows the matching `editor.error.*` message. */
+export type MediaEditErrorCode = 'unreadable' | 'encodeFailed' | 'recordingUnsupported' | 'recordingStalled';
+
+export class MediaEditError extends Error {
+  constructor(
+    readonly code: MediaEditErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MediaEditError';
+  }
+}
+
+/** Crop rectangle as fractions (0–1) of the source width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+// Portrait output is capped at 1080×1920, the size stories are displayed at
+const MAX_OUTPUT_WIDTH = 1080;
+const RECORDING_FPS = 30;
+// Recording runs in real time, so a clip taking far longer than its own length has stalled
+const RECORDING_TIMEOUT_FACTOR = 2;
+const RECORDING_TIMEOUT_SLACK_MS = 5000;
+
+/** Largest 9:16 rectangle that fits inside the source, centred. */
+export function maxCropRect({ width, height }: MediaMetadata, scale = 1): CropRect {
+  const sourceRatio = width / height;
+  const fit =
+    sourceRatio > TARGET_ASPECT_RATIO
+      ? { width: TARGET_ASPECT_RATIO / sourceRatio, height: 1 }
+      : { width: 1, height: sourceRatio / TARGET_ASPECT_RATIO };
+  const w = fit.width * scale;
+  const h = fit.height * scale;
+  return { x: (1 - w) / 2, y: (1 - h) / 2, width: w, height: h };
+}
+
+/** Whether a file should go through the editor before it can be moderated. */
+export async function needsEditing(file: File): Promise<boolean> {
+  let metadata: MediaMetadata;
+  try {
+    metadata = await readMediaMetadata(file);
+  } catch {
+    // Unreadable files are reported by the pre-checks instead
+    return false;
+  }
+  const ratio = metadata.width / metadata.height;
+  const tooLong = (metadata.duration ?? 0) > MAX_VIDEO_DURATION_SECONDS;
+  return tooLong || Math.abs(ratio - TARGET_ASPECT_RATIO) / TARGET_ASPECT_RATIO > 0.05;
+}
+
+function outputSize(metadata: MediaMetadata, crop: CropRect) {
+  const cropWidth = Math.round(crop.width * metadata.width);
+  const cropHeight = Math.round(crop.height * metadata.height);
+  const scale = Math.min(1, MAX_OUTPUT_WIDTH / cropWidth);
+  // MediaRecorder encoders want even dimensions
+  return {
+    width: Math.max(2, Math.round((cropWidth * scale) / 2) * 2),
+    height: Math.max(2, Math.round((cropHeight * scale) / 2) * 2),
+  };
+}
+
+function renamed(name: string, extension: string): string {
+  const base = name.replace(/\.[^.]+$/, '');
+  return `${base}-edited.${extension}`;
+}
+
+export async function cropImage(file: File, crop: CropRect): Promise<File> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.addEventListener('load', () => resolve(el));
+      el.addEventListener('error', () =>
+        reject(new MediaEditError('unreadable', 'This image could not be opened for editing.'))
+      );
+      el.src = url;
+    });
+    const metadata = { width: img.naturalWidth, height: img.naturalHeight };
+    const size = outputSize(metadata, crop);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    canvas.getContext('2d')!.drawImage(
+      img,
+      crop.x * metadata.width,
+      crop.y * metadata.height,
+      crop.width * metadata.width,
+      crop.height * metadata.height,
+      0,
+      0,
+      size.width,
+      size.height
+    );
+
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        b => (b ? resolve(b) : reject(new MediaEditError('encodeFailed', 'The edited image could not be encoded.'))),
+        type,
+        0.92
+      )
+    );
+    return new File([blob], renamed(file.name, type === 'image/png' ? 'png' : 'jpg'), { type });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function pickRecorderType(): { mimeType: string; extension: string } {
+  const candidates = [
+    { mimeType: 'video/mp4;codecs=avc1', extension: 'mp4' },
+    { mimeType: 'video/mp4', extension: 'mp4' },
+    { mimeType: 'video/webm;codecs=vp9', extension: 'webm' },
+    { mimeType: 'video/webm', extension: 'webm' },
+  ];
+  const supported = candidates.find(c => MediaRecorder.isTypeSupported(c.mimeType));
+  if (!supported) {
+    throw new MediaEditError('recordingUnsupported', 'This browser cannot record video, so the clip cannot be edited.');
+  }
+  return supported;
+}
+
+// requestAnimationFrame stops in background tabs; video frame callbacks follow playback
+// instead, and a timer covers browsers without them
+function onNextFrame(video: HTMLVideoElement, callback: () => void) {
+  if ('requestVideoFrameCallback' in video) video.requestVideoFrameCallback(() => callback());
+  else setTimeout(callback, 1000 / RECORDING_FPS);
+}
+
+/**
+ * Re-records the cropped region of a video between trim.start and trim.end.
+ * Recording happens in real time, so this takes as long as the trimmed clip.
+ * Audio is not carried over: stories autoplay muted on the marketplace.
+ */
+export async function cropAndTrimVideo(file: File, crop: CropRect, trim: TrimRange): Promise<File> {
+  const { mimeType, extension } = pickRecorderType();
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.src = url;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.addEventListener('loadedmetadata', () => resolve(), { once: true });
+      video.addEventListener(
+        'error',
+        () => reject(new MediaEditError('unreadable', 'This video could not be opened for editing.')),
+        { once: true }
+      );
+    });
+
+    const metadata = { width: video.videoWidth, height: video.videoHeight };
+    const size = outputSize(metadata, crop);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d')!;
+    const draw = () =>
+      ctx.drawImage(
+        video,
+        crop.x * metadata.width,
+        crop.y * metadata.height,
+        crop.width * metadata.width,
+        crop.height * metadata.height,
+        0,
+        0,
+        size.width,
+        size.height
+      );
+
+    video.currentTime = trim.start;
+    await new Promise<void>(resolve => video.addEventListener('seeked', () => resolve(), { once: true }));
+    draw();
+
+    const recorder = new MediaRecorder(canvas.captureStream(RECORDING_FPS), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.addEventListener('dataavailable', e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    });
+    const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve(), { once: true }));
+
+    recorder.start();
+    try {
+      await video.play();
+      await new Promise<void>((resolve, reject) => {
+        let finished = false;
+        const stop = () => {
+          finished = true;
+          clearTimeout(deadline);
+          video.removeEventListener('timeupdate', checkEnd);
+          video.removeEventListener('ended', checkEnd);
+        };
+        const checkEnd = () => {
+          if (finished || (video.currentTime < trim.end && !video.ended)) return;
+          stop();
+          resolve();
+        };
+        const tick = () => {
+          checkEnd();
+          if (finished) return;
+          draw();
+          onNextFrame(video, tick);
+        };
+        const deadline = setTimeout(
+          () => {
+            stop();
+            reject(new MediaEditError('recordingStalled', 'Recording the edited video stalled before the trim end.'));
+          },
+          (trim.end - trim.start) * 1000 * RECORDING_TIMEOUT_FACTOR + RECORDING_TIMEOUT_SLACK_MS
+        );
+
+        // Media events keep firing in background tabs, where frame callbacks may pause
+        video.addEventListener('timeupdate', checkEnd);
+        video.addEventListener('ended', checkEnd);
+        tick();
+      });
+    } finally {
+      video.pause();
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+    }
+
+    const type = mimeType.split(';')[0];
+    return new File([new Blob(chunks, { type })], renamed(file.name, extension), { type });
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
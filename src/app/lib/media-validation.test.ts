@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { resolveVideoDuration } from './media-validation';
+
+// Stands in for a <video> element: seeking past the end reveals `actualDuration`,
+// the way browsers fix up the length of MediaRecorder WebM files
+class FakeVideo extends EventTarget {
+  seeks: number[] = [];
+
+  constructor(
+    public duration: number,
+    private readonly actualDuration?: number
+  ) {
+    super();
+  }
+
+  set currentTime(time: number) {
+    this.seeks.push(time);
+    if (this.actualDuration === undefined) return;
+    setTimeout(() => {
+      this.duration = this.actualDuration!;
+      this.dispatchEvent(new Event('durationchange'));
+    });
+  }
+}
+
+const asVideo = (fake: FakeVideo) => fake as unknown as HTMLVideoElement;
+
+describe('resolveVideoDuration', () => {
+  it('returns a duration the header already states without seeking', async () => {
+    const video = new FakeVideo(7.5);
+    await expect(resolveVideoDuration(asVideo(video))).resolves.toBe(7.5);
+    expect(video.seeks).toEqual([]);
+  });
+
+  it('seeks past the end to find the length of a recorded WebM', async () => {
+    const video = new FakeVideo(Infinity, 8.2);
+    await expect(resolveVideoDuration(asVideo(video))).resolves.toBe(8.2);
+    expect(video.seeks).toHaveLength(1);
+    expect(video.seeks[0]).toBeGreaterThan(8.2);
+  });
+
+  it('gives up with Infinity when the length never turns up', async () => {
+    const video = new FakeVideo(Infinity);
+    await expect(resolveVideoDuration(asVideo(video), 10)).resolves.toBe(Infinity);
+  });
+});
@@ -0,0 +1,220 @@
+// Client-side pre-checks that run before a file is sent for AI moderation.
+// They enforce the constraints advertised in the upload area copy.
+
+// MIME types the pipeline handles directly. HEIC/HEIF/AVIF are converted to
+// JPEG on arrival, see image-formats.ts
+export const SUPPORTED_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'video/mp4', 'video/quicktime'];
+
+export const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+export const MAX_VIDEO_DURATION_SECONDS = 10;
+export const MIN_SHORT_SIDE_PX = 480;
+export const RECOMMENDED_SHORT_SIDE_PX = 720;
+export const TARGET_ASPECT_RATIO = 9 / 16;
+// Relative tolerance when deciding whether a portrait file is "close enough" to 9:16
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+export type PreCheckRule = 'fileSize' | 'fileType' | 'duration' | 'resolution' | 'aspectRatio';
+
+/** Rules covered by runFilePreChecks; the rest come from runMediaPreChecks. */
+export const FILE_PRE_CHECK_RULES: PreCheckRule[] = ['fileSize', 'fileType'];
+
+/** Identifies the outcome's message, so the UI can show it in the partner's language. */
+export type PreCheckCode =
+  | 'fileSize.ok'
+  | 'fileSize.tooLarge'
+  | 'fileType.image'
+  | 'fileType.video'
+  | 'fileType.invalid'
+  | 'duration.ok'
+  | 'duration.tooLong'
+  | 'duration.unknown'
+  | 'resolution.ok'
+  | 'resolution.low'
+  | 'resolution.tooSmall'
+  | 'resolution.unreadableImage'
+  | 'resolution.unreadableVideo'
+  | 'aspectRatio.ok'
+  | 'aspectRatio.letterboxed'
+  | 'aspectRatio.landscape';
+
+export interface PreCheckResult {
+  rule: PreCheckRule;
+  status: 'pass' | 'warn' | 'fail';
+  code: PreCheckCode;
+  /** Values for the message, e.g. the measured duration. */
+  params?: Record<string, string | number>;
+}
+
+// How long to wait for the browser to find the length of a video that doesn't state one
+const DURATION_PROBE_TIMEOUT_MS = 5000;
+
+export interface MediaMetadata {
+  width: number;
+  height: number;
+  /** Seconds; only set for videos. */
+  duration?: number;
+}
+
+/**
+ * Length of a video whose metadata has loaded. WebM written by MediaRecorder,
+ * which the editor falls back to without MP4 support, has no duration in its
+ * header, so browsers report Infinity until they have read to the end; seeking
+ * past the end makes them do that. Still Infinity if it can't be found in time.
+ */
+export function resolveVideoDuration(video: HTMLVideoElement, timeoutMs = DURATION_PROBE_TIMEOUT_MS): Promise<number> {
+  if (Number.isFinite(video.duration)) return Promise.resolve(video.duration);
+  return new Promise(resolve => {
+    const finish = () => {
+      clearTimeout(timer);
+      video.removeEventListener('durationchange', onDurationChange);
+      resolve(video.duration);
+    };
+    const onDurationChange = () => {
+      if (Number.isFinite(video.duration)) finish();
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    video.addEventListener('durationchange', onDurationChange);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+}
+
+export async function readMediaMetadata(file: File): Promise<MediaMetadata> {
+  const url = URL.createObjectURL(file);
+  try {
+    if (file.type.startsWith('video/')) {
+      return await new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.preload = 'metadata';
+        video.muted = true;
+        video.addEventListener('loadedmetadata', async () =>
+          resolve({ width: video.videoWidth, height: video.videoHeight, duration: await resolveVideoDuration(video) })
+        );
+        video.addEventListener('error', () => reject(new Error('This video could not be read by your browser.')));
+        video.src = url;
+      });
+    }
+    return await new Promise((resolve, reject) => {
+      const img = new Image();
+      img.addEventListener('load', () => resolve({ width: img.naturalWidth, height: img.naturalHeight }));
+      img.addEventListener('error', () => reject(new Error('This image could not be read by your browser.')));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Sniff the container from the first bytes rather than trusting the extension
+async function detectContainer(file: File): Promise<'png' | 'jpeg' | 'webp' | 'isobmff' | 'webm' | 'unknown'> {
+  const bytes = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (String.fromCharCode(...bytes.slice(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.slice(8, 12)) === 'WEBP') {
+    return 'webp';
+  }
+  // MP4 and MOV are both ISO base media files with an "ftyp" box at offset 4
+  if (String.fromCharCode(...bytes.slice(4, 8)) === 'ftyp') return 'isobmff';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  return 'unknown';
+}
+
+// WebM is not offered in the picker, but it is what the in-browser editor
+// records to on browsers without MP4 MediaRecorder support
+const EXPECTED_CONTAINER: Record<string, Awaited<ReturnType<typeof detectContainer>>> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp',
+  'video/mp4': 'isobmff',
+  'video/quicktime': 'isobmff',
+  'video/webm': 'webm',
+};
+
+// Numbers in params are formatted by the UI for the partner's locale
+const roundTo = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Size and container checks. These describe the file the partner picked, so
+ * they must run before images are re-encoded, which shrinks them and always
+ * produces a valid JPEG/WebP.
+ */
+export async function runFilePreChecks(file: File): Promise<PreCheckResult[]> {
+  const results: PreCheckResult[] = [];
+  const isVideo = file.type.startsWith('video/');
+
+  const size = roundTo(file.size / (1024 * 1024), 1);
+  results.push(
+    file.size <= MAX_FILE_SIZE_BYTES
+      ? { rule: 'fileSize', status: 'pass', code: 'fileSize.ok', params: { size } }
+      : { rule: 'fileSize', status: 'fail', code: 'fileSize.tooLarge', params: { size } }
+  );
+
+  const container = await detectContainer(file);
+  const typeOk = file.type in EXPECTED_CONTAINER && EXPECTED_CONTAINER[file.type] === container;
+  results.push(
+    typeOk
+      ? { rule: 'fileType', status: 'pass', code: isVideo ? 'fileType.video' : 'fileType.image' }
+      : { rule: 'fileType', status: 'fail', code: 'fileType.invalid' }
+  );
+
+  return results;
+}
+
+/**
+ * Duration, resolution and aspect ratio, read from the decoded file. Only run
+ * these once runFilePreChecks has passed: a broken file has no dimensions.
+ */
+export async function runMediaPreChecks(file: File): Promise<PreCheckResult[]> {
+  const results: PreCheckResult[] = [];
+  const isVideo = file.type.startsWith('video/');
+
+  let metadata: MediaMetadata;
+  try {
+    metadata = await readMediaMetadata(file);
+  } catch {
+    results.push({
+      rule: 'resolution',
+      status: 'fail',
+      code: isVideo ? 'resolution.unreadableVideo' : 'resolution.unreadableImage',
+    });
+    return results;
+  }
+
+  if (isVideo) {
+    const duration = metadata.duration ?? 0;
+    const params = { duration: roundTo(duration, 1), max: MAX_VIDEO_DURATION_SECONDS };
+    results.push(
+      Number.isFinite(duration) && duration <= MAX_VIDEO_DURATION_SECONDS
+        ? { rule: 'duration', status: 'pass', code: 'duration.ok', params }
+        : Number.isFinite(duration)
+          ? { rule: 'duration', status: 'fail', code: 'duration.tooLong', params }
+          : { rule: 'duration', status: 'fail', code: 'duration.unknown' }
+    );
+  }
+
+  const { width, height } = metadata;
+  const shortSide = Math.min(width, height);
+  const dimensions = `${width}×${height}`;
+  results.push(
+    shortSide < MIN_SHORT_SIDE_PX
+      ? { rule: 'resolution', status: 'fail', code: 'resolution.tooSmall', params: { dimensions, min: MIN_SHORT_SIDE_PX } }
+      : shortSide < RECOMMENDED_SHORT_SIDE_PX
+        ? { rule: 'resolution', status: 'warn', code: 'resolution.low', params: { dimensions, recommended: RECOMMENDED_SHORT_SIDE_PX } }
+        : { rule: 'resolution', status: 'pass', code: 'resolution.ok', params: { dimensions } }
+  );
+
+  const ratio = width / height;
+  const params = { ratio: roundTo(ratio, 2) };
+  if (ratio >= 1) {
+    results.push({ rule: 'aspectRatio', status: 'fail', code: 'aspectRatio.landscape', params });
+  } else if (Math.abs(ratio - TARGET_ASPECT_RATIO) / TARGET_ASPECT_RATIO <= ASPECT_RATIO_TOLERANCE) {
+    results.push({ rule: 'aspectRatio', status: 'pass', code: 'aspectRatio.ok' });
+  } else {
+    results.push({ rule: 'aspectRatio', status: 'warn', code: 'aspectRatio.letterboxed', params });
+  }
+
+  return results;
+}
+
+export function hasBlockingFailure(results: PreCheckResult[]): boolean {
+  return results.some(r => r.status === 'fail');
+}
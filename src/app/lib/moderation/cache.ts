@@ -0,0 +1,81 @@
+// Moderation results cached in IndexedDB, keyed by a SHA-256 of what the model
+// actually sees: the file bytes for images, the sampled frames for videos.
+// Re-uploading the same file reuses the earlier result instead of paying for
+// another model call, as long as the model and prompt version still match.
+
+import { getStore, requestToPromise, STORES } from '../idb';
+import { buildModerationRequest } from './media-encoding';
+import type { ModerationAnalysis, ModerationProvider, ModerationRequest, ModerationVersion } from './types';
+
+interface CacheEntry extends ModerationVersion {
+  key: string;
+  analysis: ModerationAnalysis;
+  cachedAt: number;
+}
+
+export interface CachedAnalysis {
+  analysis: ModerationAnalysis;
+  /** True when the result was reused from an earlier analysis of the same content. */
+  fromCache: boolean;
+  /** Videos only: the sampled frames, for other passes over the same content. */
+  request?: ModerationRequest;
+}
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Cache key for an upload. Videos are keyed by their frames, so re-encodes of the same clip can still hit. */
+export async function moderationCacheKey(file: File, request?: ModerationRequest): Promise<string> {
+  if (!request) return sha256Hex(await file.arrayBuffer());
+  const frames = request.frames.map(frame => `${frame.timestamp}:${frame.mediaType}:${frame.data}`).join('\n');
+  return sha256Hex(new TextEncoder().encode(`${request.kind}\n${frames}`));
+}
+
+// Cache failures (private browsing, quota) must never block moderation, so they count as misses
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  try {
+    const store = await getStore(STORES.moderationCache);
+    return await requestToPromise<CacheEntry | undefined>(store.get(key));
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  try {
+    const store = await getStore(STORES.moderationCache, 'readwrite');
+    await requestToPromise(store.put(entry));
+  } catch {
+    // Best effort, see readEntry
+  }
+}
+
+/** `frames`, when given, are a video's already sampled frames, so other passes can share them. */
+export async function analyzeWithCache(
+  provider: ModerationProvider,
+  file: File,
+  signal?: AbortSignal,
+  frames?: ModerationRequest
+): Promise<CachedAnalysis> {
+  // Videos are hashed by their frames, which are then reused for the request on a miss
+  const request = frames ?? (file.type.startsWith('video/') ? await buildModerationRequest(file, signal) : undefined);
+  const key = await moderationCacheKey(file, request);
+  signal?.throwIfAborted();
+
+  // If the provider can't say what it's running, don't risk serving a stale result
+  const version = await provider.getVersion().catch(() => null);
+  const entry = version ? await readEntry(key) : undefined;
+  if (entry && version && entry.model === version.model && entry.promptVersion === version.promptVersion) {
+    return { analysis: entry.analysis, fromCache: true, request };
+  }
+
+  const analysis = await provider.analyze(file, { request, signal });
+  const model = analysis.model ?? version?.model;
+  const promptVersion = analysis.promptVersion ?? version?.promptVersion;
+  if (model && promptVersion) {
+    await writeEntry({ key, model, promptVersion, analysis, cachedAt: Date.now() });
+  }
+  return { analysis, fromCache: false, request };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { detectContactInfo, mergeContactInfo } from './contact-info';
+import type { ModerationAnalysis } from './types';
+
+const found = (text: string) => detectContactInfo(text).map(({ kind, text }) => ({ kind, text }));
+
+describe('detectContactInfo', () => {
+  it.each([
+    '020 7946 0018',
+    '07700 900123',
+    '07700900123',
+    '(020) 7946 0018',
+    '+44 (0)20 7946 0018',
+    '+44 7700 900123',
+    '0044 20 7946 0018',
+    '+49 30 12345678',
+    '030-1234-5678',
+    '+33 1 23 45 67 89',
+    '01.23.45.67.89',
+    '+39 06 1234 5678',
+  ])('finds the phone number %s', number => {
+    expect(found(`Book now: ${number}.`)).toEqual([{ kind: 'phone', text: number }]);
+  });
+
+  it('finds email addresses, websites and handles', () => {
+    expect(found('Email hello@glowstudio.co.uk, visit www.glowstudio.com or glowstudio.london, follow @glow_studio_ldn')).toEqual([
+      { kind: 'email', text: 'hello@glowstudio.co.uk' },
+      { kind: 'url', text: 'www.glowstudio.com' },
+      { kind: 'url', text: 'glowstudio.london' },
+      { kind: 'handle', text: '@glow_studio_ldn' },
+    ]);
+    expect(found('Book at https://glow.example/book?ref=story!')).toEqual([
+      { kind: 'url', text: 'https://glow.example/book?ref=story' },
+    ]);
+  });
+
+  it('reports each detail once, with offsets into the text', () => {
+    const text = 'Call 020 7946 0018 or email hi@glow.de';
+    const matches = detectContactInfo(text);
+    expect(matches.map(m => m.kind)).toEqual(['phone', 'email']);
+    for (const match of matches) expect(text.slice(match.start, match.end)).toBe(match.text);
+  });
+
+  it.each([
+    'Open 01.02.2024 10:00-18:00',
+    'Mon–Fri 09:00–17:30, Sat 10:00 – 16:00',
+    'Offer valid 01/02/2024 to 28/02/2024',
+    'Season 2024/2025',
+    'Since 2019 - 2024',
+    'Balayage £145.00, now £99.99',
+    'Gel nails €1.250,00',
+    'Rated 4.9 from 1 234 reviews',
+    'Order no. 123456',
+    'e.g. 3.5 stars',
+  ])('ignores dates, times, years and prices in %s', text => {
+    expect(found(text)).toEqual([]);
+  });
+
+  it('still finds a phone number next to a date', () => {
+    expect(found('Open 01.02.2024 10:00-18:00, call 020 7946 0018')).toEqual([{ kind: 'phone', text: '020 7946 0018' }]);
+  });
+
+  it('ignores numbers with an unknown country code or too few digits', () => {
+    expect(found('+1 415 555 0100')).toEqual([]);
+    expect(found('0123 4567')).toEqual([]);
+  });
+});
+
+describe('mergeContactInfo', () => {
+  const analysis: ModerationAnalysis = {
+    moderationStatus: 'safe',
+    moderationReasons: [],
+    contentType: ['Haircut'],
+    tags: [],
+    confidence: 0.9,
+    flaggedCategories: {
+      nudity: false,
+      profanity: false,
+      violence: false,
+      illegalItems: false,
+      contactInfo: false,
+      offTopicContent: false,
+    },
+  };
+
+  const box = { x: 0.1, y: 0.8, width: 0.5, height: 0.05 };
+
+  it('returns the analysis unchanged without detections', () => {
+    expect(mergeContactInfo(analysis, [])).toBe(analysis);
+  });
+
+  it('flags contact info and adds the frames it was seen in', () => {
+    const merged = mergeContactInfo({ ...analysis, frameFlags: [{ timestamp: 2, categories: ['nudity'] }] }, [
+      { kind: 'phone', text: '020 7946 0018', timestamp: 2, box },
+      { kind: 'email', text: 'hi@glow.de', timestamp: 1, box },
+    ]);
+    expect(merged.moderationStatus).toBe('unsafe');
+    expect(merged.flaggedCategories.contactInfo).toBe(true);
+    expect(merged.moderationReasons).toEqual([
+      'Contact details are visible: phone number "020 7946 0018", email address "hi@glow.de".',
+    ]);
+    expect(merged.frameFlags).toEqual([
+      { timestamp: 1, categories: ['contactInfo'] },
+      { timestamp: 2, categories: ['nudity', 'contactInfo'] },
+    ]);
+  });
+});
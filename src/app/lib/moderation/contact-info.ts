@@ -0,0 +1,121 @@
+// Deterministic detectors for contact details in text read off an upload:
+// UK/EU phone numbers, email addresses, websites and social media handles.
+// Partners may not route customers around the marketplace, so any hit flags
+// `contactInfo` whatever the model said. Pure, so it can be unit tested.
+
+import type { ContactInfoDetection, ContactInfoKind, ModerationAnalysis } from './types';
+
+export interface ContactInfoMatch {
+  kind: ContactInfoKind;
+  text: string;
+  /** Character offsets into the scanned text, end exclusive. */
+  start: number;
+  end: number;
+}
+
+export const CONTACT_INFO_LABELS: Record<ContactInfoKind, string> = {
+  phone: 'phone number',
+  email: 'email address',
+  url: 'website',
+  handle: 'social media handle',
+};
+
+// UK (44) and EU/EEA country calling codes, plus Switzerland
+const COUNTRY_CODES = [
+  '30', '31', '32', '33', '34', '350', '351', '352', '353', '354', '356', '357', '358', '359', '36',
+  '370', '371', '372', '385', '386', '39', '40', '41', '420', '421', '423', '43', '44', '45', '46', '47', '48', '49',
+];
+
+// An optional +CC, (0) or bracketed area code, then digit groups split by single spaces,
+// dots, dashes or slashes; the digits are validated below
+const PHONE_CANDIDATE = /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(0\)[ .-]?)?(?:\(\d{2,5}\)[ .-]?)?\d+(?:[ .\/-]\d+)*(?!\w)/g;
+// Dates ("01.02.2024"), times ("10:00") and year ranges ("2024/2025") read like
+// grouped digits, so they are blanked out before looking for phone numbers
+const NOT_PHONE = [
+  /(?<![\d./-])\d{1,2}([./-])\d{1,2}\1\d{2,4}(?!\d|[./-]\d)/g,
+  /(?<!\d)\d{1,2}:\d{2}(?!\d)/g,
+  /(?<!\d)(?:19|20)\d{2} ?[/–-] ?(?:(?:19|20)\d{2}|\d{2})(?!\d)/g,
+];
+const EMAIL = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+// Explicit URLs, or bare domains on TLDs partners actually use, so "e.g." and "3.5" don't count
+const URL =
+  /\b(?:https?:\/\/|www\.)[^\s]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|co\.uk|org\.uk|uk|de|fr|it|es|nl|be|ie|at|ch|pt|pl|eu|net|org|io|me|shop|salon|beauty|studio|london)\b(?:\/[^\s]*)?/gi;
+const HANDLE = /(?<![\w.@])@[A-Za-z0-9._]{2,30}\b/g;
+
+function isPhoneNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  const international = candidate.startsWith('+') ? digits : digits.startsWith('00') ? digits.slice(2) : null;
+  if (international !== null) {
+    return (
+      international.length >= 9 &&
+      international.length <= 15 &&
+      COUNTRY_CODES.some(code => international.startsWith(code))
+    );
+  }
+  // National format: a trunk "0" then 9–11 digits covers the UK and most of the EU.
+  // Shorter runs starting with 0 are usually dates or prices.
+  return digits.startsWith('0') && digits.length >= 10 && digits.length <= 12;
+}
+
+// Same length as `text`, so match offsets still point into the original
+function maskNonPhoneNumbers(text: string): string {
+  return NOT_PHONE.reduce((masked, pattern) => masked.replace(pattern, match => ' '.repeat(match.length)), text);
+}
+
+function findAll(text: string, pattern: RegExp, kind: ContactInfoKind): ContactInfoMatch[] {
+  return Array.from(text.matchAll(pattern), match => {
+    // Trailing punctuation belongs to the sentence, not the address
+    const matched = match[0].replace(/[.,;:!?)]+$/, '');
+    const start = match.index ?? 0;
+    return { kind, text: matched, start, end: start + matched.length };
+  });
+}
+
+/** Finds contact details in `text`. Overlapping matches keep the first kind found: email, URL, handle, phone. */
+export function detectContactInfo(text: string): ContactInfoMatch[] {
+  const candidates = [
+    ...findAll(text, EMAIL, 'email'),
+    ...findAll(text, URL, 'url'),
+    ...findAll(text, HANDLE, 'handle'),
+    ...findAll(maskNonPhoneNumbers(text), PHONE_CANDIDATE, 'phone').filter(match => isPhoneNumber(match.text)),
+  ];
+
+  const matches: ContactInfoMatch[] = [];
+  for (const candidate of candidates) {
+    if (!matches.some(match => candidate.start < match.end && match.start < candidate.end)) {
+      matches.push(candidate);
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Adds OCR detections to a model result: flags `contactInfo`, marks it unsafe,
+ * explains what was found and, for videos, records which frames it was in.
+ */
+export function mergeContactInfo(analysis: ModerationAnalysis, detections: ContactInfoDetection[]): ModerationAnalysis {
+  if (detections.length === 0) return analysis;
+
+  const found = [...new Set(detections.map(d => `${CONTACT_INFO_LABELS[d.kind]} "${d.text}"`))];
+  const frameFlags = analysis.frameFlags ? [...analysis.frameFlags] : undefined;
+  if (frameFlags) {
+    for (const timestamp of new Set(detections.map(d => d.timestamp))) {
+      const existing = frameFlags.find(flag => flag.timestamp === timestamp);
+      if (!existing) {
+        frameFlags.push({ timestamp, categories: ['contactInfo'] });
+      } else if (!existing.categories.includes('contactInfo')) {
+        frameFlags[frameFlags.indexOf(existing)] = { timestamp, categories: [...existing.categories, 'contactInfo'] };
+      }
+    }
+    frameFlags.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  return {
+    ...analysis,
+    moderationStatus: 'unsafe',
+    moderationReasons: [...(analysis.moderationReasons ?? []), `Contact details are visible: ${found.join(', ')}.`],
+    flaggedCategories: { ...analysis.flaggedCategories, contactInfo: true },
+    frameFlags,
+    textDetections: detections,
+  };
+}
@@ -0,0 +1,15 @@
+// Display labels for the flagged categories, shared by the upload modal and the
+// reviewer queue. Kept apart from both screens so neither pulls in the other.
+
+import type { MessageKey } from '../i18n';
+import type { FlaggedCategory } from './types';
+
+/** Message keys for each flagged category's label. */
+export const FLAG_LABELS: Record<FlaggedCategory, MessageKey> = {
+  nudity: 'flag.nudity',
+  profanity: 'flag.profanity',
+  violence: 'flag.violence',
+  illegalItems: 'flag.illegalItems',
+  contactInfo: 'flag.contactInfo',
+  offTopicContent: 'flag.offTopicContent',
+};
@@ -0,0 +1,29 @@
+import { createProxyProvider } from './proxy-provider';
+import { createMockProvider, type MockOutcome } from './mock-provider';
+import type { ModerationProvider } from './types';
+
+export type { ModerationProvider, ModerationAnalysis, ModerationVersion, FlaggedCategory } from './types';
+
+/**
+ * Picks the moderation backend from the environment:
+ *
+ *   VITE_MODERATION_PROVIDER=proxy (default) | mock
+ *   VITE_MODERATION_PROXY_URL=/api/moderate          (proxy only)
+ *   VITE_MOCK_MODERATION_SCRIPT=safe,unsafe,error   (mock only, cycles in order)
+ */
+export function getModerationProvider(): ModerationProvider {
+  const provider = (import.meta.env.VITE_MODERATION_PROVIDER as string | undefined) ?? 'proxy';
+
+  if (provider === 'mock') {
+    const script = (import.meta.env.VITE_MOCK_MODERATION_SCRIPT as string | undefined)
+      ?.split(',')
+      .map(s => s.trim())
+      .filter((s): s is MockOutcome => s === 'safe' || s === 'unsafe' || s === 'error');
+    return createMockProvider({ script: script?.length ? script : undefined });
+  }
+
+  if (provider !== 'proxy') {
+    throw new Error(`Unknown VITE_MODERATION_PROVIDER "${provider}". Use "proxy" or "mock".`);
+  }
+  return createProxyProvider(import.meta.env.VITE_MODERATION_PROXY_URL as string | undefined);
+}
@@ -0,0 +1,94 @@
+// Encoding helpers shared by moderation providers: uploads are sent to vision
+// models as base64 JPEG/PNG, and videos as a set of sampled frames.
+
+import { resolveVideoDuration } from '../media-validation';
+import type { ModerationFrame, ModerationRequest } from './types';
+
+export async function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+// Number of evenly spaced frames sampled from each video for moderation
+export const VIDEO_SAMPLE_FRAMES = 8;
+// Frames are downscaled so the whole set fits comfortably in one request
+const VIDEO_FRAME_MAX_WIDTH = 768;
+// A load or seek that never completes would otherwise hold an analysis slot forever
+const VIDEO_EVENT_TIMEOUT_MS = 10_000;
+
+// Resolves on the video's next `type` event; rejects on a media error, an abort or the timeout
+function waitForVideo(video: HTMLVideoElement, type: 'loadeddata' | 'seeked', signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const settle = (done: () => void) => {
+      clearTimeout(timer);
+      video.removeEventListener(type, onEvent);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      done();
+    };
+    const onEvent = () => settle(resolve);
+    const onError = () => settle(() => reject(new Error('The video could not be read.')));
+    const onAbort = () => settle(() => reject(signal!.reason));
+    const timer = setTimeout(
+      () => settle(() => reject(new Error(`The video did not finish ${type === 'seeked' ? 'seeking' : 'loading'} in time.`))),
+      VIDEO_EVENT_TIMEOUT_MS
+    );
+    video.addEventListener(type, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function extractVideoFrames(
+  file: File,
+  count = VIDEO_SAMPLE_FRAMES,
+  signal?: AbortSignal
+): Promise<ModerationFrame[]> {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(file);
+  video.src = url;
+  video.muted = true;
+  video.crossOrigin = 'anonymous';
+
+  try {
+    const loaded = waitForVideo(video, 'loadeddata', signal);
+    video.load();
+    await loaded;
+
+    const duration = await resolveVideoDuration(video);
+    if (!Number.isFinite(duration)) throw new Error('The video length could not be determined.');
+
+    const scale = Math.min(1, VIDEO_FRAME_MAX_WIDTH / (video.videoWidth || 640));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round((video.videoWidth || 640) * scale);
+    canvas.height = Math.round((video.videoHeight || 360) * scale);
+    const ctx = canvas.getContext('2d')!;
+
+    // Sample the middle of each of `count` equal segments so the whole clip is covered
+    const frames: ModerationFrame[] = [];
+    for (let i = 0; i < count; i++) {
+      const timestamp = (duration * (i + 0.5)) / count;
+      const seeked = waitForVideo(video, 'seeked', signal);
+      video.currentTime = timestamp;
+      await seeked;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({ timestamp, mediaType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', 0.8).split(',')[1] });
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function buildModerationRequest(file: File, signal?: AbortSignal): Promise<ModerationRequest> {
+  if (file.type.startsWith('video/')) {
+    return { kind: 'video', frames: await extractVideoFrames(file, VIDEO_SAMPLE_FRAMES, signal) };
+  }
+  const mediaType = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+  return { kind: 'image', frames: [{ timestamp: 0, mediaType, data: await fileToBase64(file) }] };
+}
@@ -0,0 +1,82 @@
+import { MODERATION_POLICY } from './policy-config';
+import { sleep } from './retry';
+import type { AnalyzeOptions, ModerationAnalysis, ModerationProvider } from './types';
+
+export type MockOutcome = 'safe' | 'unsafe' | 'error';
+
+export interface MockProviderOptions {
+  /**
+   * Outcomes returned in order, cycling back to the start. A file whose name
+   * contains "safe", "unsafe" or "error" always gets that outcome instead, so
+   * demos can pick a result by renaming the file.
+   */
+  script?: MockOutcome[];
+  /** Simulated round-trip time in ms. */
+  latencyMs?: number;
+}
+
+const SAFE_RESULT: ModerationAnalysis = {
+  contentType: ['Hair Colouring'],
+  tags: ['balayage', 'blonde', 'salon'],
+  moderationStatus: 'safe',
+  moderationReasons: [],
+  confidence: 0.96,
+  flaggedCategories: {
+    nudity: false,
+    profanity: false,
+    violence: false,
+    illegalItems: false,
+    contactInfo: false,
+    offTopicContent: false,
+  },
+};
+
+const UNSAFE_RESULT: ModerationAnalysis = {
+  contentType: ['Manicure'],
+  tags: ['nails', 'gel'],
+  moderationStatus: 'unsafe',
+  moderationReasons: [MODERATION_POLICY.bannedCategories.contactInfo.reason],
+  confidence: 0.93,
+  flaggedCategories: {
+    nudity: false,
+    profanity: false,
+    violence: false,
+    illegalItems: false,
+    contactInfo: true,
+    offTopicContent: false,
+  },
+};
+
+const MOCK_VERSION = { model: 'mock', promptVersion: 'mock' };
+
+function outcomeFromFileName(name: string): MockOutcome | undefined {
+  const lower = name.toLowerCase();
+  // "unsafe" contains "safe", so check it first
+  if (lower.includes('unsafe')) return 'unsafe';
+  if (lower.includes('error')) return 'error';
+  if (lower.includes('safe')) return 'safe';
+  return undefined;
+}
+
+/** Deterministic, offline provider for local development, demos and tests. */
+export function createMockProvider({ script = ['safe'], latencyMs = 800 }: MockProviderOptions = {}): ModerationProvider {
+  let call = 0;
+
+  return {
+    name: 'mock',
+    async analyze(file: File, { signal }: AnalyzeOptions = {}) {
+      const outcome = outcomeFromFileName(file.name) ?? script[call % script.length];
+      call += 1;
+      await sleep(latencyMs, signal);
+
+      if (outcome === 'error') {
+        throw new Error('Mock moderation provider returned a scripted error.');
+      }
+      const result = outcome === 'unsafe' ? UNSAFE_RESULT : SAFE_RESULT;
+      return { ...structuredClone(result), ...MOCK_VERSION, policyVersion: MODERATION_POLICY.version };
+    },
+    async getVersion() {
+      return MOCK_VERSION;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// What stories may and may not show, as data. The moderation prompt is
+// generated from this config and partner-facing reasons come from it, so the
+// policy is changed here, reviewed as one diff and versioned as a whole.
+// Every analysis records the version it was produced under.
+
+import type { TreatmentCategory } from '../treatments/catalogue';
+import type { FlaggedCategory } from './types';
+
+export interface AllowedCategory {
+  category: TreatmentCategory;
+  label: string;
+  /** Typical treatments, listed in the prompt so the model knows the scope. */
+  examples: string[];
+}
+
+export interface BannedCategory {
+  /** What the model should look for, as written in the prompt. */
+  description: string;
+  /**
+   * Shown to the partner when an upload is rejected for this category. This is
+   * the English text; update the `reason.*` messages in the other catalogues too.
+   */
+  reason: string;
+}
+
+export interface ModerationPolicyConfig {
+  /** Bump on any change: it is part of the prompt version, so cached results are invalidated too. */
+  version: string;
+  marketplace: string;
+  /** Catalogue categories stories may show. Anything else is off-topic. */
+  allowedCategories: AllowedCategory[];
+  bannedCategories: Record<FlaggedCategory, BannedCategory>;
+}
+
+export const MODERATION_POLICY: ModerationPolicyConfig = {
+  version: '1',
+  marketplace: 'Treatwell, a beauty & wellness marketplace',
+  allowedCategories: [
+    { category: 'hair', label: 'Hair', examples: ['haircuts', 'colouring', 'balayage', 'blow dries', 'extensions', 'barbering'] },
+    { category: 'nails', label: 'Nails', examples: ['manicures', 'pedicures', 'gel and acrylic nails', 'nail art'] },
+    { category: 'brows-lashes', label: 'Brows & lashes', examples: ['brow lamination', 'threading', 'lash lifts', 'lash extensions', 'microblading'] },
+    { category: 'hair-removal', label: 'Hair removal', examples: ['waxing', 'sugaring', 'laser hair removal'] },
+    { category: 'face', label: 'Face & skin', examples: ['facials', 'peels', 'microneedling', 'LED therapy'] },
+    { category: 'makeup', label: 'Makeup', examples: ['bridal and occasion makeup', 'makeup lessons'] },
+    { category: 'massage', label: 'Massage', examples: ['Swedish, deep tissue, hot stone and sports massage', 'reflexology'] },
+    { category: 'body', label: 'Body', examples: ['spray tans', 'body wraps and scrubs', 'body contouring'] },
+    { category: 'aesthetics', label: 'Aesthetics', examples: ['anti-wrinkle injections', 'dermal fillers', 'skin boosters'] },
+    { category: 'wellness', label: 'Wellness', examples: ['reiki', 'meditation', 'sound baths', 'saunas and hammams'] },
+    { category: 'fitness', label: 'Fitness', examples: ['yoga', 'pilates', 'barre', 'personal training'] },
+    { category: 'health', label: 'Health', examples: ['acupuncture', 'physiotherapy', 'osteopathy', 'podiatry'] },
+  ],
+  bannedCategories: {
+    nudity: {
+      description: 'Nudity or sexual content, at any level',
+      reason: 'Stories can’t show nudity or sexual content. Treatments on the body should keep intimate areas covered.',
+    },
+    profanity: {
+      description: 'Profanity or offensive text visible anywhere in the image',
+      reason: 'Stories can’t include swearing or offensive language, including on signs or products.',
+    },
+    violence: {
+      description: 'Violence, blood or gore, including graphic injuries or procedures',
+      reason: 'Stories can’t show violence, blood or graphic injuries.',
+    },
+    illegalItems: {
+      description: 'Drugs, weapons or other illegal items',
+      reason: 'Stories can’t show drugs, weapons or other illegal items.',
+    },
+    contactInfo: {
+      description: 'Contact information: phone numbers, email addresses, websites or social media handles',
+      reason: 'Stories can’t include phone numbers, emails, websites or social handles. Customers book through Treatwell.',
+    },
+    offTopicContent: {
+      description: 'Off-topic content that shows none of the allowed treatment categories',
+      reason: 'Stories need to show a treatment, result or venue from one of the categories on Treatwell.',
+    },
+  },
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_VERDICT_THRESHOLDS, deriveVerdict, verdictThresholdsFromEnv } from './policy';
+import { MODERATION_POLICY } from './policy-config';
+import type { FlaggedCategory, ModerationAnalysis } from './types';
+
+function analysis(overrides: Partial<ModerationAnalysis> = {}, flagged: FlaggedCategory[] = []): ModerationAnalysis {
+  return {
+    contentType: ['Gel Manicure'],
+    tags: ['gel'],
+    moderationStatus: flagged.length > 0 ? 'unsafe' : 'safe',
+    confidence: 0.95,
+    flaggedCategories: {
+      nudity: flagged.includes('nudity'),
+      profanity: flagged.includes('profanity'),
+      violence: flagged.includes('violence'),
+      illegalItems: flagged.includes('illegalItems'),
+      contactInfo: flagged.includes('contactInfo'),
+      offTopicContent: flagged.includes('offTopicContent'),
+    },
+    ...overrides,
+  };
+}
+
+describe('deriveVerdict', () => {
+  it('approves a confident clean result', () => {
+    expect(deriveVerdict(analysis())).toEqual({ verdict: 'approve', reasons: [], flaggedCategories: [] });
+  });
+
+  it('rejects any flag with the policy reason for each category', () => {
+    expect(deriveVerdict(analysis({}, ['violence', 'contactInfo']))).toEqual({
+      verdict: 'reject',
+      reasons: [MODERATION_POLICY.bannedCategories.violence.reason, MODERATION_POLICY.bannedCategories.contactInfo.reason],
+      flaggedCategories: ['violence', 'contactInfo'],
+    });
+  });
+
+  it('rejects a flag even when the model says safe with high confidence', () => {
+    expect(deriveVerdict(analysis({ moderationStatus: 'safe', confidence: 1 }, ['nudity'])).verdict).toBe('reject');
+  });
+
+  it('rejects a flag even below the confidence threshold', () => {
+    expect(deriveVerdict(analysis({ confidence: 0.1 }, ['profanity'])).verdict).toBe('reject');
+  });
+
+  it('sends unsafe with nothing flagged to review', () => {
+    const decision = deriveVerdict(analysis({ moderationStatus: 'unsafe' }));
+    expect(decision.verdict).toBe('review');
+    expect(decision.flaggedCategories).toEqual([]);
+    expect(decision.reasons).toHaveLength(1);
+  });
+
+  it('approves at exactly the confidence threshold and reviews just below it', () => {
+    const threshold = DEFAULT_VERDICT_THRESHOLDS.reviewBelowConfidence;
+    expect(deriveVerdict(analysis({ confidence: threshold })).verdict).toBe('approve');
+    expect(deriveVerdict(analysis({ confidence: threshold - 0.001 })).verdict).toBe('review');
+  });
+
+  it('uses the thresholds it is given', () => {
+    expect(deriveVerdict(analysis({ confidence: 0.9 }), { reviewBelowConfidence: 0.95 }).verdict).toBe('review');
+    expect(deriveVerdict(analysis({ confidence: 0.3 }), { reviewBelowConfidence: 0.3 }).verdict).toBe('approve');
+  });
+});
+
+describe('verdictThresholdsFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the defaults when the variable is not set', () => {
+    vi.stubEnv('VITE_MODERATION_REVIEW_CONFIDENCE', '');
+    expect(verdictThresholdsFromEnv()).toEqual(DEFAULT_VERDICT_THRESHOLDS);
+  });
+
+  it.each(['0', '0.85', '1'])('reads %s', value => {
+    vi.stubEnv('VITE_MODERATION_REVIEW_CONFIDENCE', value);
+    expect(verdictThresholdsFromEnv()).toEqual({ reviewBelowConfidence: Number(value) });
+  });
+
+  it.each(['high', '-0.1', '1.5', '85'])('falls back to the defaults for %s', value => {
+    vi.stubEnv('VITE_MODERATION_REVIEW_CONFIDENCE', value);
+    expect(verdictThresholdsFromEnv()).toEqual(DEFAULT_VERDICT_THRESHOLDS);
+  });
+});
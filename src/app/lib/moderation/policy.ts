@@ -0,0 +1,73 @@
+// Derives the final moderation verdict from the whole analysis instead of
+// trusting the model's moderationStatus on its own. Pure, so it can be unit
+// tested without a provider.
+
+import { MODERATION_POLICY } from './policy-config';
+import { FLAGGED_CATEGORIES, type FlaggedCategory, type ModerationAnalysis } from './types';
+
+export type ModerationVerdict = 'approve' | 'reject' | 'review';
+
+export interface VerdictThresholds {
+  /** Clean results below this confidence go to manual review instead of auto-approval. */
+  reviewBelowConfidence: number;
+}
+
+export const DEFAULT_VERDICT_THRESHOLDS: VerdictThresholds = {
+  reviewBelowConfidence: 0.7,
+};
+
+export interface VerdictDecision {
+  verdict: ModerationVerdict;
+  /** Why the policy reached this verdict, in English for reviewers and audit. */
+  reasons: string[];
+  flaggedCategories: FlaggedCategory[];
+}
+
+export function deriveVerdict(
+  analysis: ModerationAnalysis,
+  thresholds: VerdictThresholds = DEFAULT_VERDICT_THRESHOLDS
+): VerdictDecision {
+  const flaggedCategories = FLAGGED_CATEGORIES.filter(category => analysis.flaggedCategories[category]);
+
+  // Any flag is a rejection, whatever the model's overall status says
+  if (flaggedCategories.length > 0) {
+    return {
+      verdict: 'reject',
+      reasons: flaggedCategories.map(category => MODERATION_POLICY.bannedCategories[category].reason),
+      flaggedCategories,
+    };
+  }
+
+  // "unsafe" with nothing flagged can't be explained to the partner, so a human decides
+  if (analysis.moderationStatus === 'unsafe') {
+    return {
+      verdict: 'review',
+      reasons: ['The model marked this unsafe without flagging a category.'],
+      flaggedCategories,
+    };
+  }
+
+  if (analysis.confidence < thresholds.reviewBelowConfidence) {
+    return {
+      verdict: 'review',
+      reasons: [
+        `Model confidence ${Math.round(analysis.confidence * 100)}% is below the ` +
+          `${Math.round(thresholds.reviewBelowConfidence * 100)}% auto-approval threshold.`,
+      ],
+      flaggedCategories,
+    };
+  }
+
+  return { verdict: 'approve', reasons: [], flaggedCategories };
+}
+
+/** Reads VITE_MODERATION_REVIEW_CONFIDENCE (0–1), falling back to the defaults. */
+export function verdictThresholdsFromEnv(): VerdictThresholds {
+  const raw = Number(import.meta.env.VITE_MODERATION_REVIEW_CONFIDENCE);
+  return {
+    ...DEFAULT_VERDICT_THRESHOLDS,
+    ...(import.meta.env.VITE_MODERATION_REVIEW_CONFIDENCE && raw >= 0 && raw <= 1
+      ? { reviewBelowConfidence: raw }
+      : {}),
+  };
+}
@@ -0,0 +1,62 @@
+import { buildModerationRequest } from './media-encoding';
+import { ModerationRequestError, withRetry } from './retry';
+import type { AnalyzeOptions, ModerationAnalysis, ModerationProvider, ModerationVersion } from './types';
+
+// Same-origin by default: served by the Vite middleware in dev and preview
+const DEFAULT_PROXY_URL = '/api/moderate';
+
+/** Sends encoded frames to our moderation proxy, which holds the vendor API key. */
+export function createProxyProvider(url = DEFAULT_PROXY_URL): ModerationProvider {
+  // The proxy's model and prompt version only change on redeploy, so ask once per page load
+  let version: Promise<ModerationVersion> | null = null;
+
+  return {
+    name: 'proxy',
+    async analyze(file: File, { request, signal }: AnalyzeOptions = {}): Promise<ModerationAnalysis> {
+      const body = JSON.stringify(request ?? (await buildModerationRequest(file, signal)));
+      signal?.throwIfAborted();
+
+      // Rate limiting and upstream failures are usually gone a few seconds later
+      const response = await withRetry(
+        async () => {
+          const res = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            signal,
+          });
+          if (!res.ok) {
+            const error = await res.json().catch(() => null);
+            const retryAfter = Number(res.headers.get('Retry-After'));
+            throw new ModerationRequestError(
+              error?.error ?? `Moderation proxy error (${res.status}).`,
+              res.status,
+              Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+            );
+          }
+          return res;
+        },
+        { signal }
+      );
+
+      const analysis: ModerationAnalysis = await response.json();
+      // The proxy validates the model output; this only guards against a misconfigured endpoint
+      if (analysis?.moderationStatus !== 'safe' && analysis?.moderationStatus !== 'unsafe') {
+        throw new Error('Moderation proxy returned an unexpected response.');
+      }
+      return analysis;
+    },
+    getVersion() {
+      version ??= fetch(url)
+        .then(async response => {
+          if (!response.ok) throw new Error(`Moderation proxy error (${response.status}).`);
+          return (await response.json()) as ModerationVersion;
+        })
+        .catch(err => {
+          version = null;
+          throw err;
+        });
+      return version;
+    },
+  };
+}
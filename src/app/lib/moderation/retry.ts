@@ -0,0 +1,72 @@
+// Backoff and cancellation helpers for moderation calls. Only transient
+// failures (rate limiting, an upstream outage, dropped connections) are retried;
+// anything else, and any abort, is surfaced to the caller straight away.
+
+/** A failed moderation HTTP call, with what we need to decide whether to retry. */
+export class ModerationRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** From the Retry-After header, when the server sent one. */
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ModerationRequestError';
+  }
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries?: number;
+  /** Delay before the first retry; doubles each time, with jitter. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+// The proxy answers 502/503/504 only when the vendor API is down or unreachable.
+// Other 5xx (and 422 for a malformed model reply) would fail the same way again,
+// and every retry is another paid model call.
+const TRANSIENT_STATUSES = new Set([429, 502, 503, 504]);
+
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof ModerationRequestError) return TRANSIENT_STATUSES.has(err.status);
+  // fetch rejects with a TypeError when the connection fails
+  return err instanceof TypeError;
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 15_000, signal }: RetryOptions = {}
+): Promise<T> {
+  for (let n = 0; ; n++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (n >= retries || signal?.aborted || !isTransientError(err)) throw err;
+      const backoff = Math.min(baseDelayMs * 2 ** n, maxDelayMs) * (0.5 + Math.random() / 2);
+      const retryAfterMs = err instanceof ModerationRequestError ? (err.retryAfterSeconds ?? 0) * 1000 : 0;
+      await sleep(Math.max(backoff, retryAfterMs), signal);
+    }
+  }
+}
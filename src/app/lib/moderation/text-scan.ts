@@ -0,0 +1,106 @@
+// Local OCR pass that reads the visible text off an upload and runs the
+// contact-info detectors over it, line by line, so each hit can be placed on
+// the image. Tesseract's WebAssembly build and English model are bundled with
+// the app, so this works offline and never sends the image anywhere.
+
+import type { Worker as OcrWorker, Bbox, Line } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishModelUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { detectContactInfo } from './contact-info';
+import type { ContactInfoDetection, ModerationRequest } from './types';
+
+let ocrWorker: Promise<OcrWorker> | null = null;
+
+// One worker, created on first use and kept for the session: loading the model is the slow part
+function getOcrWorker(): Promise<OcrWorker> {
+  ocrWorker ??= (async () => {
+    const [{ createWorker, OEM }, model] = await Promise.all([
+      import('tesseract.js'),
+      fetch(englishModelUrl).then(response => response.arrayBuffer()),
+    ]);
+    return createWorker([{ code: 'eng', data: new Uint8Array(model) }], OEM.LSTM_ONLY, {
+      workerPath: workerUrl,
+      corePath: coreUrl,
+      workerBlobURL: false,
+    });
+  })().catch(err => {
+    ocrWorker = null;
+    throw err;
+  });
+  return ocrWorker;
+}
+
+function union(boxes: Bbox[]): Bbox {
+  return {
+    x0: Math.min(...boxes.map(b => b.x0)),
+    y0: Math.min(...boxes.map(b => b.y0)),
+    x1: Math.max(...boxes.map(b => b.x1)),
+    y1: Math.max(...boxes.map(b => b.y1)),
+  };
+}
+
+// Matches are found on the line's text, then boxed with the words they overlap
+function detectInLine(line: Line, timestamp: number, width: number, height: number): ContactInfoDetection[] {
+  let offset = 0;
+  const words = line.words.map(word => {
+    const start = offset;
+    offset += word.text.length + 1;
+    return { box: word.bbox, start, end: start + word.text.length };
+  });
+  const text = line.words.map(word => word.text).join(' ');
+
+  return detectContactInfo(text).map(match => {
+    const covered = words.filter(word => word.start < match.end && match.start < word.end);
+    const box = union(covered.length > 0 ? covered.map(word => word.box) : [line.bbox]);
+    return {
+      kind: match.kind,
+      text: match.text,
+      timestamp,
+      box: {
+        x: box.x0 / width,
+        y: box.y0 / height,
+        width: (box.x1 - box.x0) / width,
+        height: (box.y1 - box.y0) / height,
+      },
+    };
+  });
+}
+
+async function scanImage(image: Blob, timestamp: number): Promise<ContactInfoDetection[]> {
+  const bitmap = await createImageBitmap(image);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(image, {}, { blocks: true });
+  const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+  return lines.flatMap(line => detectInLine(line, timestamp, width, height));
+}
+
+/**
+ * Finds contact details in the visible text of an image, or of a video's
+ * sampled frames when `request` is given. OCR failures return no detections,
+ * leaving the model's own contactInfo flag as the fallback.
+ */
+export async function scanForContactInfo(
+  file: File,
+  request?: ModerationRequest,
+  signal?: AbortSignal
+): Promise<ContactInfoDetection[]> {
+  try {
+    if (!request) return await scanImage(file, 0);
+
+    const detections: ContactInfoDetection[] = [];
+    for (const frame of request.frames) {
+      signal?.throwIfAborted();
+      const image = await (await fetch(`data:${frame.mediaType};base64,${frame.data}`)).blob();
+      detections.push(...(await scanImage(image, frame.timestamp)));
+    }
+    return detections;
+  } catch (err) {
+    signal?.throwIfAborted();
+    console.warn('Text scan for contact details failed:', err);
+    return [];
+  }
+}
@@ -0,0 +1,86 @@
+export type FlaggedCategory =
+  | 'nudity'
+  | 'profanity'
+  | 'violence'
+  | 'illegalItems'
+  | 'contactInfo'
+  | 'offTopicContent';
+
+export const FLAGGED_CATEGORIES: FlaggedCategory[] = [
+  'nudity',
+  'profanity',
+  'violence',
+  'illegalItems',
+  'contactInfo',
+  'offTopicContent',
+];
+
+export interface ModerationAnalysis {
+  contentType: string[];
+  tags: string[];
+  moderationStatus: 'safe' | 'unsafe';
+  moderationReasons?: string[];
+  confidence: number;
+  flaggedCategories: Record<FlaggedCategory, boolean>;
+  /** Videos only: the sampled frames that triggered each flagged category. */
+  frameFlags?: { timestamp: number; categories: FlaggedCategory[] }[];
+  /** Contact details found in the visible text by the local OCR pass, not by the model. */
+  textDetections?: ContactInfoDetection[];
+  /** Model and prompt version that produced this result, when the provider reports them. */
+  model?: string;
+  promptVersion?: string;
+  /** MODERATION_POLICY version the result was produced under. */
+  policyVersion?: string;
+}
+
+export type ContactInfoKind = 'phone' | 'email' | 'url' | 'handle';
+
+export interface ContactInfoDetection {
+  kind: ContactInfoKind;
+  /** The matched text as read by OCR. */
+  text: string;
+  /** Seconds from the start of the clip; 0 for images. */
+  timestamp: number;
+  /** Where the text is, as fractions (0–1) of the image's width and height. */
+  box: { x: number; y: number; width: number; height: number };
+}
+
+/** Identifies what produces a provider's results, so cached results can be invalidated. */
+export interface ModerationVersion {
+  model: string;
+  promptVersion: string;
+}
+
+/** One image sent for moderation: the upload itself, or a frame sampled from a video. */
+export interface ModerationFrame {
+  /** Seconds from the start of the clip; 0 for images. */
+  timestamp: number;
+  mediaType: 'image/jpeg' | 'image/png' | 'image/webp';
+  /** Base64 without the data: URL prefix. */
+  data: string;
+}
+
+/** Body of POST /api/moderate. */
+export interface ModerationRequest {
+  kind: 'image' | 'video';
+  frames: ModerationFrame[];
+}
+
+export interface AnalyzeOptions {
+  /** Already-encoded request for this file, so frames aren't extracted twice. */
+  request?: ModerationRequest;
+  /** Aborts the call, e.g. when the partner removes the slide or closes the modal. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that can moderate a single upload. Implementations throw on
+ * failure; the caller turns that into an `error` status on the media item.
+ */
+export interface ModerationProvider {
+  /** Short identifier, e.g. "claude" or "mock". */
+  name: string;
+  analyze(file: File, options?: AnalyzeOptions): Promise<ModerationAnalysis>;
+  /** The model and prompt version new results would come from. */
+  getVersion(): Promise<ModerationVersion>;
+}
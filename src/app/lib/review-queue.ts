@@ -0,0 +1,132 @@
+// Manual review queue for uploads the moderation policy couldn't decide on,
+// and for partner appeals against rejections. Persisted in IndexedDB so the
+// reviewer screen and the partner's modal see the same items, and changes are
+// broadcast to other open tabs.
+
+import { getStore, requestToPromise, STORES } from './idb';
+import type { ModerationAnalysis } from './moderation';
+
+export interface ReviewItem {
+  /** Same as the UploadedMedia id it was created from. */
+  id: string;
+  /** "review" for borderline AI results, "appeal" when a partner disputes a rejection. */
+  kind: 'review' | 'appeal';
+  file: Blob;
+  fileName: string;
+  type: 'image' | 'video';
+  aiAnalysis?: ModerationAnalysis;
+  /** Why the policy sent this item to review, or why it was rejected for appeals. */
+  reasons: string[];
+  treatmentName?: string;
+  submittedAt: number;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewerNote?: string;
+  decidedAt?: number;
+  /** Appeals only: the partner's justification. */
+  justification?: string;
+  /** Appeals only: the earlier human decision, if the rejection came from a reviewer. */
+  previousDecision?: { reviewerNote?: string; decidedAt?: number };
+}
+
+/** Longest appeal justification we accept, in characters. */
+export const MAX_APPEAL_LENGTH = 500;
+
+/** Why an appeal was refused; the UI shows the matching `appeal.error.*` message. */
+export type AppealErrorCode = 'empty' | 'tooLong' | 'alreadyAppealed';
+
+export class AppealError extends Error {
+  constructor(
+    readonly code: AppealErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AppealError';
+  }
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('treatwell-review-queue') : null;
+
+function notify() {
+  listeners.forEach(listener => listener());
+  channel?.postMessage('changed');
+}
+
+channel?.addEventListener('message', () => listeners.forEach(listener => listener()));
+
+/** Calls `listener` whenever the queue changes in this or another tab. Returns an unsubscribe function. */
+export function subscribeToReviewQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+type NewReviewItem = Omit<ReviewItem, 'kind' | 'status' | 'submittedAt' | 'justification' | 'previousDecision'>;
+
+export async function submitForReview(item: NewReviewItem): Promise<void> {
+  const store = await getStore(STORES.reviewQueue, 'readwrite');
+  await requestToPromise(store.put({ ...item, kind: 'review', status: 'pending', submittedAt: Date.now() } satisfies ReviewItem));
+  notify();
+}
+
+/** Puts a rejected upload back in the queue with the partner's justification. One appeal per upload. */
+export async function submitAppeal(item: NewReviewItem, justification: string): Promise<void> {
+  const trimmed = justification.trim();
+  if (!trimmed) throw new AppealError('empty', 'The appeal has no justification.');
+  if (trimmed.length > MAX_APPEAL_LENGTH) {
+    throw new AppealError('tooLong', `The justification is longer than ${MAX_APPEAL_LENGTH} characters.`);
+  }
+
+  const existing = await getReviewItem(item.id);
+  if (existing?.kind === 'appeal') throw new AppealError('alreadyAppealed', 'This upload has already been appealed.');
+
+  const store = await getStore(STORES.reviewQueue, 'readwrite');
+  await requestToPromise(
+    store.put({
+      ...item,
+      kind: 'appeal',
+      status: 'pending',
+      submittedAt: Date.now(),
+      justification: trimmed,
+      previousDecision: existing ? { reviewerNote: existing.reviewerNote, decidedAt: existing.decidedAt } : undefined,
+    } satisfies ReviewItem)
+  );
+  notify();
+}
+
+export async function getReviewItem(id: string): Promise<ReviewItem | undefined> {
+  const store = await getStore(STORES.reviewQueue);
+  return requestToPromise(store.get(id) as IDBRequest<ReviewItem | undefined>);
+}
+
+/** All items, pending first, each group oldest first. */
+export async function listReviewItems(): Promise<ReviewItem[]> {
+  const store = await getStore(STORES.reviewQueue);
+  const items = await requestToPromise(store.getAll() as IDBRequest<ReviewItem[]>);
+  return items.sort((a, b) => {
+    if ((a.status === 'pending') !== (b.status === 'pending')) return a.status === 'pending' ? -1 : 1;
+    return a.submittedAt - b.submittedAt;
+  });
+}
+
+/** Takes back a pending item whose upload the partner removed, so no reviewer decides on it. Decided items are kept. */
+export async function withdrawReviewItem(id: string): Promise<void> {
+  const item = await getReviewItem(id);
+  if (item?.status !== 'pending') return;
+
+  const store = await getStore(STORES.reviewQueue, 'readwrite');
+  await requestToPromise(store.delete(id));
+  notify();
+}
+
+export async function decideReview(id: string, decision: 'approved' | 'rejected', note: string): Promise<void> {
+  const item = await getReviewItem(id);
+  if (!item) throw new Error('This review item no longer exists.');
+
+  const store = await getStore(STORES.reviewQueue, 'readwrite');
+  await requestToPromise(
+    store.put({ ...item, status: decision, reviewerNote: note.trim() || undefined, decidedAt: Date.now() } satisfies ReviewItem)
+  );
+  notify();
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTreatmentCatalogue,
+  normalizeTreatmentName,
+  parseTreatmentCsv,
+  parseTreatmentJson,
+  TreatmentCatalogueError,
+} from './catalogue';
+
+const CSV = [
+  'id,name,category,aliases,name:de,name:fr-CA',
+  '1,"Ladies\' Haircut & Blow Dry",hair,"Women\'s Cut | Cut and Blow Dry",Damenhaarschnitt mit Föhnen,',
+  '2,"Gel Manicure, Hands",nails,Shellac|Gel Polish,Gel-Maniküre,Manucure gel',
+  '3,"The ""Signature"" Facial",face,,,',
+].join('\r\n');
+
+describe('parseTreatmentCsv', () => {
+  const treatments = parseTreatmentCsv(CSV);
+
+  it('reads quoted fields with commas, apostrophes and doubled quotes', () => {
+    expect(treatments.map(t => t.name)).toEqual([
+      "Ladies' Haircut & Blow Dry",
+      'Gel Manicure, Hands',
+      'The "Signature" Facial',
+    ]);
+  });
+
+  it('reads quoted fields that span lines', () => {
+    const [treatment] = parseTreatmentCsv('id,name,category\n1,"Hot Stone\nMassage",massage\n');
+    expect(treatment.name).toBe('Hot Stone\nMassage');
+  });
+
+  it('splits and trims aliases', () => {
+    expect(treatments[0].aliases).toEqual(["Women's Cut", 'Cut and Blow Dry']);
+    expect(treatments[1].aliases).toEqual(['Shellac', 'Gel Polish']);
+    expect(treatments[2].aliases).toEqual([]);
+  });
+
+  it('reads name:<lang> columns and skips empty ones', () => {
+    expect(treatments[0].names).toEqual({ de: 'Damenhaarschnitt mit Föhnen' });
+    expect(treatments[1].names).toEqual({ de: 'Gel-Maniküre', 'fr-ca': 'Manucure gel' });
+    expect(treatments[2].names).toEqual({});
+  });
+
+  it('ignores a byte order mark and blank lines', () => {
+    expect(parseTreatmentCsv('﻿id,name,category\n\n1,Yoga,fitness\n\n')).toEqual([
+      { id: 1, name: 'Yoga', category: 'fitness', aliases: [], names: {} },
+    ]);
+  });
+
+  it('rejects a header without the required columns', () => {
+    expect(() => parseTreatmentCsv('id,title\n1,Yoga')).toThrow(TreatmentCatalogueError);
+  });
+});
+
+describe('parseTreatmentJson', () => {
+  it('reads treatments and drops malformed optional fields', () => {
+    expect(
+      parseTreatmentJson('[{"id": 4, "name": " Reiki ", "category": "wellness", "aliases": ["Energy Healing", 3], "names": {"de": "Reiki", "fr": null}}]')
+    ).toEqual([{ id: 4, name: 'Reiki', category: 'wellness', aliases: ['Energy Healing'], names: { de: 'Reiki' } }]);
+  });
+
+  it('rejects invalid JSON and non-arrays', () => {
+    expect(() => parseTreatmentJson('{')).toThrow(TreatmentCatalogueError);
+    expect(() => parseTreatmentJson('{}')).toThrow(TreatmentCatalogueError);
+  });
+});
+
+describe('createTreatmentCatalogue', () => {
+  const catalogue = createTreatmentCatalogue(parseTreatmentCsv(CSV));
+
+  it('looks up names, aliases and localised names ignoring case, accents and punctuation', () => {
+    expect(catalogue.byName('ladies haircut and blow-dry')?.id).toBe(1);
+    expect(catalogue.byName('WOMENS CUT')?.id).toBe(1);
+    expect(catalogue.byName('damenhaarschnitt mit fohnen')?.id).toBe(1);
+    expect(catalogue.byName('shellac')?.id).toBe(2);
+    expect(catalogue.byName('Pedicure')).toBeUndefined();
+  });
+
+  it('returns the localised name, falling back to the language and then English', () => {
+    const gel = catalogue.byId(2)!;
+    expect(catalogue.localName(gel, 'fr-CA')).toBe('Manucure gel');
+    expect(catalogue.localName(gel, 'de-AT')).toBe('Gel-Maniküre');
+    expect(catalogue.localName(gel, 'fr')).toBe('Gel Manicure, Hands');
+  });
+
+  it('groups treatments by category', () => {
+    expect(catalogue.byCategory('nails').map(t => t.id)).toEqual([2]);
+    expect(catalogue.byCategory('massage')).toEqual([]);
+  });
+
+  it('lists every problem with invalid data', () => {
+    const invalid = () =>
+      createTreatmentCatalogue([
+        { id: 1, name: 'Yoga', category: 'fitness', aliases: [], names: {} },
+        { id: 1, name: 'Hot Yoga', category: 'sport' as never, aliases: ['yoga'], names: {} },
+      ]);
+    expect(invalid).toThrow(TreatmentCatalogueError);
+    try {
+      invalid();
+    } catch (err) {
+      expect((err as TreatmentCatalogueError).errors).toHaveLength(3);
+    }
+  });
+});
+
+describe('normalizeTreatmentName', () => {
+  it('folds case, accents, ampersands and punctuation', () => {
+    expect(normalizeTreatmentName("Ladies' Haircut & Blow Dry")).toBe('ladies haircut and blow dry');
+    expect(normalizeTreatmentName('  Épilation—Maillot ')).toBe('epilation maillot');
+  });
+});
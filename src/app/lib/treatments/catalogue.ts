@@ -0,0 +1,210 @@
+// Canonical Treatwell treatment catalogue: every treatment a story can be
+// tagged with, grouped by category, with aliases and localised names for
+// lookups. Parsed from JSON or CSV so the data can change without code changes.
+
+export type TreatmentCategory =
+  | 'hair'
+  | 'nails'
+  | 'brows-lashes'
+  | 'hair-removal'
+  | 'face'
+  | 'makeup'
+  | 'massage'
+  | 'body'
+  | 'aesthetics'
+  | 'wellness'
+  | 'fitness'
+  | 'health';
+
+export const TREATMENT_CATEGORIES: TreatmentCategory[] = [
+  'hair',
+  'nails',
+  'brows-lashes',
+  'hair-removal',
+  'face',
+  'makeup',
+  'massage',
+  'body',
+  'aesthetics',
+  'wellness',
+  'fitness',
+  'health',
+];
+
+export interface Treatment {
+  id: number;
+  /** English (en-GB) name, as shown to customers in the UK. */
+  name: string;
+  category: TreatmentCategory;
+  /** Other names partners, customers or the model use for the same treatment. */
+  aliases: string[];
+  /** Localised names keyed by language, e.g. { de: 'Haarschnitt' }. */
+  names: Record<string, string>;
+}
+
+export interface TreatmentCatalogue {
+  readonly treatments: readonly Treatment[];
+  byId(id: number): Treatment | undefined;
+  /** Exact lookup by name, alias or localised name, ignoring case, accents and punctuation. */
+  byName(name: string): Treatment | undefined;
+  byCategory(category: TreatmentCategory): Treatment[];
+  /** Name in `locale` ("de", "de-AT"…), falling back to the English name. */
+  localName(treatment: Treatment, locale: string): string;
+}
+
+/** Thrown when catalogue data is malformed; `errors` lists every problem found. */
+export class TreatmentCatalogueError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid treatment catalogue: ${errors.slice(0, 5).join(' ')}${errors.length > 5 ? ' …' : ''}`);
+    this.name = 'TreatmentCatalogueError';
+  }
+}
+
+/** Lookup key for a treatment name: "Ladies' Haircut & Blow Dry" → "ladies haircut and blow dry". */
+export function normalizeTreatmentName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function createTreatmentCatalogue(treatments: Treatment[]): TreatmentCatalogue {
+  const errors: string[] = [];
+  const idIndex = new Map<number, Treatment>();
+  const nameIndex = new Map<string, Treatment>();
+  const categoryIndex = new Map<TreatmentCategory, Treatment[]>(TREATMENT_CATEGORIES.map(c => [c, []]));
+
+  treatments.forEach((treatment, index) => {
+    const label = `Treatment ${index + 1} ("${treatment.name}")`;
+    if (!Number.isInteger(treatment.id) || treatment.id <= 0) errors.push(`${label} needs a positive whole-number id.`);
+    if (!treatment.name?.trim()) errors.push(`Treatment ${index + 1} has no name.`);
+    if (!TREATMENT_CATEGORIES.includes(treatment.category)) {
+      errors.push(`${label} has unknown category "${treatment.category}".`);
+    }
+    if (idIndex.has(treatment.id)) errors.push(`${label} reuses id ${treatment.id}.`);
+    idIndex.set(treatment.id, treatment);
+    categoryIndex.get(treatment.category)?.push(treatment);
+
+    // Every name must point at exactly one treatment, or lookups become order-dependent
+    for (const name of [treatment.name, ...treatment.aliases, ...Object.values(treatment.names)]) {
+      const key = normalizeTreatmentName(name ?? '');
+      if (!key) continue;
+      const existing = nameIndex.get(key);
+      if (existing && existing !== treatment) {
+        errors.push(`${label}: "${name}" already refers to #${existing.id} "${existing.name}".`);
+      } else {
+        nameIndex.set(key, treatment);
+      }
+    }
+  });
+
+  if (errors.length > 0) throw new TreatmentCatalogueError(errors);
+
+  return {
+    treatments,
+    byId: id => idIndex.get(id),
+    byName: name => nameIndex.get(normalizeTreatmentName(name)),
+    byCategory: category => categoryIndex.get(category) ?? [],
+    localName: (treatment, locale) => {
+      const language = locale.toLowerCase().split('-')[0];
+      return treatment.names[locale.toLowerCase()] ?? treatment.names[language] ?? treatment.name;
+    },
+  };
+}
+
+// ─── Parsers ──────────────────────────────────────────────────────────────────
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Parses catalogue CSV with the header `id,name,category,aliases` plus any
+ * number of `name:<lang>` columns. Aliases are separated by "|".
+ */
+export function parseTreatmentCsv(text: string): Treatment[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(column => column.trim());
+  const missing = ['id', 'name', 'category'].filter(column => !columns.includes(column));
+  if (missing.length > 0) throw new TreatmentCatalogueError([`CSV header is missing: ${missing.join(', ')}.`]);
+
+  const localeColumns = columns
+    .map((column, index) => ({ locale: /^name:([a-z]{2}(?:-[a-z]{2})?)$/i.exec(column)?.[1].toLowerCase(), index }))
+    .filter((entry): entry is { locale: string; index: number } => entry.locale !== undefined);
+  const cell = (row: string[], column: string) => row[columns.indexOf(column)]?.trim() ?? '';
+
+  return rows.map(row => ({
+    id: Number(cell(row, 'id')),
+    name: cell(row, 'name'),
+    category: cell(row, 'category') as TreatmentCategory,
+    aliases: cell(row, 'aliases').split('|').map(alias => alias.trim()).filter(Boolean),
+    names: Object.fromEntries(
+      localeColumns.map(({ locale, index }) => [locale, row[index]?.trim() ?? '']).filter(([, name]) => name)
+    ),
+  }));
+}
+
+/** Parses a JSON array of `{ id, name, category, aliases?, names? }`. */
+export function parseTreatmentJson(text: string): Treatment[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new TreatmentCatalogueError(['Catalogue is not valid JSON.']);
+  }
+  if (!Array.isArray(parsed)) throw new TreatmentCatalogueError(['Catalogue JSON must be an array of treatments.']);
+
+  return parsed.map(entry => {
+    const { id, name, category, aliases, names } = (entry ?? {}) as Record<string, unknown>;
+    return {
+      id: Number(id),
+      name: typeof name === 'string' ? name.trim() : '',
+      category: category as TreatmentCategory,
+      aliases: Array.isArray(aliases) ? aliases.filter((a): a is string => typeof a === 'string') : [],
+      names:
+        typeof names === 'object' && names !== null
+          ? Object.fromEntries(Object.entries(names).filter((e): e is [string, string] => typeof e[1] === 'string'))
+          : {},
+    };
+  });
+}
@@ -0,0 +1,40 @@
+import catalogueCsv from './treatments.csv?raw';
+import {
+  createTreatmentCatalogue,
+  parseTreatmentCsv,
+  parseTreatmentJson,
+  type TreatmentCatalogue,
+} from './catalogue';
+
+export * from './catalogue';
+export * from './matcher';
+export * from './tags';
+
+/** The catalogue bundled with the app, from treatments.csv. */
+export const defaultTreatmentCatalogue = createTreatmentCatalogue(parseTreatmentCsv(catalogueCsv));
+
+/** Fetches a catalogue published as .json or .csv. Throws TreatmentCatalogueError on bad data. */
+export async function loadTreatmentCatalogue(url: string): Promise<TreatmentCatalogue> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Treatment catalogue request failed (${response.status}).`);
+  const text = await response.text();
+  const isJson = /\.json($|\?)/i.test(url) || response.headers.get('Content-Type')?.includes('json');
+  return createTreatmentCatalogue(isJson ? parseTreatmentJson(text) : parseTreatmentCsv(text));
+}
+
+let catalogue: Promise<TreatmentCatalogue> | null = null;
+
+/**
+ * The catalogue to match against: VITE_TREATMENT_CATALOGUE_URL if set, so ops
+ * can publish updates without a release, otherwise the bundled default.
+ */
+export function getTreatmentCatalogue(): Promise<TreatmentCatalogue> {
+  const url = import.meta.env.VITE_TREATMENT_CATALOGUE_URL as string | undefined;
+  catalogue ??= url
+    ? loadTreatmentCatalogue(url).catch(err => {
+        console.warn('Falling back to the bundled treatment catalogue:', err);
+        return defaultTreatmentCatalogue;
+      })
+    : Promise.resolve(defaultTreatmentCatalogue);
+  return catalogue;
+}
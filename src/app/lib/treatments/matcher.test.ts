@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { createTreatmentCatalogue, parseTreatmentCsv, type Treatment } from './catalogue';
+import { rankTreatments } from './matcher';
+import matcherCases from '../../../../evals/fixtures/treatment-matching.json';
+
+const treatment = (id: number, name: string, category: Treatment['category'], aliases: string[] = []): Treatment => ({
+  id,
+  name,
+  category,
+  aliases,
+  names: {},
+});
+
+const catalogue = createTreatmentCatalogue([
+  treatment(1, 'Yoga', 'fitness'),
+  treatment(2, 'Hot Yoga', 'fitness', ['Bikram Yoga']),
+  treatment(3, 'Gel Manicure', 'nails', ['Shellac Manicure']),
+  treatment(4, 'Balayage', 'hair'),
+  treatment(5, 'Leg Waxing', 'hair-removal', ['Leg Wax']),
+  { ...treatment(6, 'Haircut', 'hair'), names: { de: 'Haarschnitt' } },
+]);
+
+const top = (contentType: string[], tags: string[] = []) => rankTreatments(catalogue, { contentType, tags })[0];
+
+describe('rankTreatments', () => {
+  it('scores an exact name highest', () => {
+    expect(top(['Hot Yoga'])).toMatchObject({ treatment: { id: 2 }, kind: 'exact', score: 1 });
+  });
+
+  it('scores an alias just below an exact name', () => {
+    expect(top(['Bikram yoga'])).toMatchObject({ treatment: { id: 2 }, kind: 'alias', score: 0.95 });
+  });
+
+  it('matches localised names as aliases', () => {
+    expect(top(['Haarschnitt'])).toMatchObject({ treatment: { id: 6 }, kind: 'alias' });
+  });
+
+  it('ranks exact above alias above fuzzy', () => {
+    const exact = top(['Gel Manicure'])!;
+    const alias = top(['Shellac Manicure'])!;
+    const fuzzy = top(['Balayge'])!;
+    expect(fuzzy).toMatchObject({ treatment: { id: 4 }, kind: 'fuzzy' });
+    expect(exact.score).toBeGreaterThan(alias.score);
+    expect(alias.score).toBeGreaterThan(fuzzy.score);
+  });
+
+  it('prefers the specific treatment over a shorter name it contains', () => {
+    expect(top(['Hot yoga class'])).toMatchObject({ treatment: { id: 2 }, kind: 'tokens' });
+    expect(top(['Yoga class'])).toMatchObject({ treatment: { id: 1 }, kind: 'tokens' });
+  });
+
+  it('uses tags as supporting evidence', () => {
+    expect(top(['Waxing session'], ['legs', 'wax strip'])?.treatment.id).toBe(5);
+    expect(top([], ['leg wax'])).toMatchObject({ treatment: { id: 5 }, kind: 'tags' });
+  });
+
+  it('returns nothing for empty evidence', () => {
+    expect(rankTreatments(catalogue, {})).toEqual([]);
+    expect(rankTreatments(catalogue, { contentType: ['', '  '], tags: [] })).toEqual([]);
+  });
+
+  it('returns nothing when no treatment is close enough', () => {
+    expect(rankTreatments(catalogue, { contentType: ['Car showroom'], tags: ['cars'] })).toEqual([]);
+  });
+
+  it('honours limit and minScore', () => {
+    expect(rankTreatments(catalogue, { contentType: ['Hot yoga class'] }, { limit: 1 })).toHaveLength(1);
+    expect(rankTreatments(catalogue, { contentType: ['Balayge'] }, { minScore: 0.99 })).toEqual([]);
+  });
+});
+
+describe('rankTreatments on the bundled catalogue', () => {
+  const bundled = createTreatmentCatalogue(
+    parseTreatmentCsv(readFileSync(new URL('./treatments.csv', import.meta.url), 'utf8'))
+  );
+
+  it.each(matcherCases)('maps $contentType with $tags to $expected', ({ contentType, tags, expected }) => {
+    const ranked = rankTreatments(bundled, { contentType, tags });
+    if (expected === null) expect(ranked).toEqual([]);
+    else expect(ranked[0]?.treatment.id).toBe(expected);
+  });
+});
@@ -0,0 +1,197 @@
+// Ranks catalogue treatments against what the model said it saw. Each
+// detected content type is scored against every name, alias and localised
+// name of a treatment (exact, then token overlap, then edit distance), and
+// the model's free-form tags add supporting evidence. Returning a ranked,
+// scored list rather than the first hit stops short names like "Yoga" or
+// "Wax" from winning just because they come first in the catalogue.
+
+import { normalizeTreatmentName, type Treatment, type TreatmentCatalogue } from './catalogue';
+
+export type TreatmentMatchKind = 'exact' | 'alias' | 'tokens' | 'fuzzy' | 'tags';
+
+export interface TreatmentMatch {
+  treatment: Treatment;
+  /** 0–1; comparable across calls, so it can be thresholded. */
+  score: number;
+  /** Strongest kind of evidence behind the score. */
+  kind: TreatmentMatchKind;
+}
+
+export interface TreatmentEvidence {
+  /** Model's content types, most likely first. */
+  contentType?: string[];
+  tags?: string[];
+}
+
+export interface RankOptions {
+  /** Maximum candidates returned (default 5). */
+  limit?: number;
+  /** Candidates scoring below this are dropped (default 0.45). */
+  minScore?: number;
+}
+
+// Base scores per kind of match; token and fuzzy scores are scaled by similarity
+const EXACT_NAME_SCORE = 1;
+const EXACT_ALIAS_SCORE = 0.95;
+const TOKEN_SCORE = 0.85;
+const FUZZY_SCORE = 0.8;
+// A tag that names a treatment outright is weaker evidence than a content type
+const TAG_NAME_SCORE = 0.5;
+// Later content types are the model's less likely guesses
+const SECONDARY_CONTENT_TYPE_WEIGHT = 0.9;
+const TAG_TOKEN_BONUS = 0.05;
+const MAX_TAG_BONUS = 0.15;
+const MIN_FUZZY_SIMILARITY = 0.75;
+
+// Words that say nothing about which treatment it is
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'with', 'in', 'on', 'treatment', 'session']);
+
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+function tokenize(text: string): string[] {
+  return normalizeTreatmentName(text)
+    .split(' ')
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+/** Levenshtein distance, two rows at a time. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+// Short tokens only count when identical, so "wax" never fuzzes into "max"
+function tokensMatch(a: string, b: string): number {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) < 5) return 0;
+  return similarity(a, b) >= 0.8 ? 0.8 : 0;
+}
+
+/** Dice coefficient over tokens, with near-identical tokens counting partially. */
+function tokenOverlap(query: string[], name: string[]): number {
+  if (query.length === 0 || name.length === 0) return 0;
+  const unused = [...name];
+  let matched = 0;
+  for (const token of query) {
+    let best = 0;
+    let bestIndex = -1;
+    unused.forEach((candidate, index) => {
+      const score = tokensMatch(token, candidate);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      matched += best;
+      unused.splice(bestIndex, 1);
+    }
+  }
+  return (2 * matched) / (query.length + name.length);
+}
+
+interface IndexedName {
+  key: string;
+  tokens: string[];
+  isPrimary: boolean;
+}
+
+interface IndexedTreatment {
+  treatment: Treatment;
+  names: IndexedName[];
+  /** Every token across the treatment's names, for tag evidence. */
+  vocabulary: Set<string>;
+}
+
+const indexes = new WeakMap<TreatmentCatalogue, IndexedTreatment[]>();
+
+function indexCatalogue(catalogue: TreatmentCatalogue): IndexedTreatment[] {
+  let index = indexes.get(catalogue);
+  if (!index) {
+    index = catalogue.treatments.map(treatment => {
+      const names = [treatment.name, ...treatment.aliases, ...Object.values(treatment.names)].map((name, i) => ({
+        key: normalizeTreatmentName(name),
+        tokens: tokenize(name),
+        isPrimary: i === 0,
+      }));
+      return { treatment, names, vocabulary: new Set(names.flatMap(name => name.tokens)) };
+    });
+    indexes.set(catalogue, index);
+  }
+  return index;
+}
+
+function scoreName(query: string, queryTokens: string[], name: IndexedName): { score: number; kind: TreatmentMatchKind } {
+  if (query === name.key) {
+    return name.isPrimary ? { score: EXACT_NAME_SCORE, kind: 'exact' } : { score: EXACT_ALIAS_SCORE, kind: 'alias' };
+  }
+  const tokens = TOKEN_SCORE * tokenOverlap(queryTokens, name.tokens);
+  const nameSimilarity = similarity(query, name.key);
+  const fuzzy = nameSimilarity >= MIN_FUZZY_SIMILARITY ? FUZZY_SCORE * nameSimilarity : 0;
+  return fuzzy > tokens ? { score: fuzzy, kind: 'fuzzy' } : { score: tokens, kind: 'tokens' };
+}
+
+/**
+ * Ranks catalogue treatments for a model result, best first. Returns an empty
+ * list when nothing scores above `minScore`.
+ */
+export function rankTreatments(
+  catalogue: TreatmentCatalogue,
+  evidence: TreatmentEvidence,
+  { limit = 5, minScore = 0.45 }: RankOptions = {}
+): TreatmentMatch[] {
+  const queries = (evidence.contentType ?? [])
+    .map((text, i) => ({
+      key: normalizeTreatmentName(text),
+      tokens: tokenize(text),
+      weight: i === 0 ? 1 : SECONDARY_CONTENT_TYPE_WEIGHT,
+    }))
+    .filter(query => query.key);
+  const tagKeys = new Set((evidence.tags ?? []).map(normalizeTreatmentName).filter(Boolean));
+  const tagTokens = new Set((evidence.tags ?? []).flatMap(tokenize));
+
+  const matches: TreatmentMatch[] = [];
+  for (const { treatment, names, vocabulary } of indexCatalogue(catalogue)) {
+    let best: { score: number; kind: TreatmentMatchKind } = { score: 0, kind: 'tokens' };
+    for (const query of queries) {
+      for (const name of names) {
+        const { score, kind } = scoreName(query.key, query.tokens, name);
+        if (score * query.weight > best.score) best = { score: score * query.weight, kind };
+      }
+    }
+    if (best.score < TAG_NAME_SCORE && names.some(name => tagKeys.has(name.key))) {
+      best = { score: TAG_NAME_SCORE, kind: 'tags' };
+    }
+    if (best.score === 0) continue;
+
+    let supportingTokens = 0;
+    vocabulary.forEach(token => {
+      if (tagTokens.has(token)) supportingTokens++;
+    });
+    const score = Math.min(1, best.score + Math.min(MAX_TAG_BONUS, supportingTokens * TAG_TOKEN_BONUS));
+    if (score >= minScore) matches.push({ treatment, score, kind: best.kind });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.treatment.name.localeCompare(b.treatment.name))
+    .slice(0, limit);
+}
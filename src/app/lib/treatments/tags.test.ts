@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { curateTags, GENERAL_TAGS, MAX_TAGS, normalizeTag, recurateTags, tagVocabulary } from './tags';
+
+describe('normalizeTag', () => {
+  const hair = tagVocabulary('hair');
+
+  it('maps case, punctuation, plurals and synonyms onto the vocabulary', () => {
+    expect(normalizeTag('Hair Colour', hair)).toBe('hair colour');
+    expect(normalizeTag('hair color', hair)).toBe('hair colour');
+    expect(normalizeTag('Hair dye!', hair)).toBe('hair colour');
+    expect(normalizeTag('highlight', hair)).toBe('highlights');
+    expect(normalizeTag('bangs', hair)).toBe('fringe');
+    expect(normalizeTag('Before & After', hair)).toBe('before and after');
+  });
+
+  it('returns undefined for text outside the vocabulary', () => {
+    expect(normalizeTag('manicure', hair)).toBeUndefined();
+    expect(normalizeTag('sunset', hair)).toBeUndefined();
+    expect(normalizeTag('  ', hair)).toBeUndefined();
+  });
+});
+
+describe('tagVocabulary', () => {
+  it('puts general tags after the category tags', () => {
+    const nails = tagVocabulary('nails');
+    expect(nails[0]).toBe('manicure');
+    expect(nails.slice(-GENERAL_TAGS.length)).toEqual(GENERAL_TAGS);
+  });
+
+  it('allows every tag without a category', () => {
+    const all = tagVocabulary();
+    expect(all).toContain('balayage');
+    expect(all).toContain('manicure');
+    expect(new Set(all).size).toBe(all.length);
+  });
+});
+
+describe('curateTags', () => {
+  it('keeps vocabulary tags in the model order and drops the rest', () => {
+    expect(curateTags(['hair color', 'balayage', 'manicure', 'sunset', 'salon'], 'hair')).toEqual([
+      'hair colour',
+      'balayage',
+      'salon',
+    ]);
+  });
+
+  it('drops tags that map to one already kept', () => {
+    expect(curateTags(['shellac', 'gel nails', 'Gel', 'glitter', 'GLITTER'], 'nails')).toEqual(['gel', 'glitter']);
+  });
+
+  it(`keeps at most ${MAX_TAGS} tags`, () => {
+    const tags = curateTags(tagVocabulary('hair'), 'hair');
+    expect(tags).toHaveLength(MAX_TAGS);
+    expect(tags).toEqual(tagVocabulary('hair').slice(0, MAX_TAGS));
+  });
+});
+
+describe('recurateTags', () => {
+  const modelTags = ['hair color', 'balayage', 'manicure', 'salon'];
+
+  it('keeps partner-added tags the new vocabulary has', () => {
+    // 'bridal' and 'vegan' were added by the partner; the model never suggested them
+    const current = ['hair colour', 'balayage', 'salon', 'bridal', 'vegan'];
+    expect(recurateTags(current, modelTags, 'hair', 'nails')).toEqual(['salon', 'bridal', 'vegan', 'manicure']);
+  });
+
+  it('replaces AI tags from the old category with the model tags for the new one', () => {
+    const current = curateTags(modelTags, 'hair');
+    const recurated = recurateTags(current, modelTags, 'hair', 'nails');
+    expect(recurated).not.toContain('hair colour');
+    expect(recurated).not.toContain('balayage');
+    expect(recurated).toContain('manicure');
+  });
+
+  it('does not bring back tags the partner removed', () => {
+    expect(recurateTags(['hair colour', 'balayage'], modelTags, 'hair', 'nails')).toEqual(['manicure']);
+  });
+
+  it('leaves the tags alone when the category does not change', () => {
+    expect(recurateTags(['hair colour', 'salon'], modelTags, 'hair', 'hair')).toEqual(['hair colour', 'salon']);
+  });
+});
@@ -0,0 +1,169 @@
+// Controlled tag vocabulary for marketplace discovery. The model returns free
+// text, so its tags are normalised onto these lists (one per catalogue
+// category, plus general tags that fit any treatment) and anything that
+// doesn't map is dropped. Partners can only add tags from the same lists.
+
+import { normalizeTreatmentName, type TreatmentCategory } from './catalogue';
+
+/** Most tags a slide can carry. */
+export const MAX_TAGS = 10;
+
+export const GENERAL_TAGS = [
+  'before and after',
+  'close-up',
+  'salon',
+  'spa',
+  'clinic',
+  'at home',
+  'relaxing',
+  'natural',
+  'bridal',
+  'special occasion',
+  'men',
+  'vegan',
+];
+
+export const TAG_VOCABULARY: Record<TreatmentCategory, string[]> = {
+  hair: [
+    'hair colour', 'blonde', 'brunette', 'red hair', 'grey hair', 'highlights', 'balayage', 'ombre', 'root touch-up',
+    'haircut', 'layers', 'bob', 'fringe', 'fade', 'curly hair', 'straight hair', 'waves', 'updo', 'braids',
+    'blow dry', 'extensions', 'long hair', 'short hair', 'frizz free', 'scalp care', 'beard',
+  ],
+  nails: [
+    'manicure', 'pedicure', 'gel', 'acrylic', 'biab', 'nail art', 'french tips', 'chrome', 'glitter', 'nude',
+    'red nails', 'pink nails', 'almond', 'coffin', 'square', 'short nails', 'long nails', 'toenails',
+  ],
+  'brows-lashes': [
+    'brows', 'lashes', 'brow lamination', 'brow tint', 'brow shaping', 'threading', 'microblading',
+    'lash lift', 'lash tint', 'lash extensions', 'volume lashes', 'classic lashes', 'fluffy brows',
+  ],
+  'hair-removal': [
+    'waxing', 'hot wax', 'sugaring', 'threading', 'laser', 'ipl', 'legs', 'underarms', 'bikini', 'brazilian',
+    'hollywood', 'face', 'back', 'smooth skin',
+  ],
+  face: [
+    'facial', 'skincare', 'glow', 'hydration', 'anti-ageing', 'acne', 'peel', 'microneedling',
+    'dermaplaning', 'led', 'extractions', 'face mask', 'sensitive skin', 'pores',
+  ],
+  makeup: [
+    'makeup', 'glam', 'natural makeup', 'smoky eye', 'eyeliner', 'lipstick', 'contour', 'airbrush',
+    'evening makeup', 'editorial',
+  ],
+  massage: [
+    'massage', 'swedish', 'deep tissue', 'hot stones', 'aromatherapy', 'sports massage', 'back', 'neck and shoulders',
+    'feet', 'reflexology', 'full body', 'couples', 'pregnancy',
+  ],
+  body: [
+    'body wrap', 'body scrub', 'spray tan', 'tanning', 'bronze', 'cellulite', 'contouring', 'detox', 'slimming',
+  ],
+  aesthetics: [
+    'injectables', 'anti-wrinkle', 'fillers', 'lips', 'cheeks', 'jawline', 'forehead', 'skin boosters',
+    'thread lift', 'non-surgical',
+  ],
+  wellness: [
+    'meditation', 'mindfulness', 'reiki', 'sound bath', 'breathwork', 'holistic', 'energy healing',
+    'sauna', 'float', 'hammam',
+  ],
+  fitness: [
+    'yoga', 'pilates', 'reformer', 'hot yoga', 'barre', 'hiit', 'strength', 'stretching', 'cardio', 'dance',
+    'personal training', 'group class', 'mat',
+  ],
+  health: [
+    'physiotherapy', 'osteopathy', 'chiropractic', 'acupuncture', 'podiatry', 'nutrition', 'posture',
+    'injury recovery', 'pain relief',
+  ],
+};
+
+// Common model and partner wordings for vocabulary tags, keyed by normalised text
+const TAG_SYNONYMS: Record<string, string> = {
+  blond: 'blonde',
+  'blonde hair': 'blonde',
+  'hair color': 'hair colour',
+  'hair dye': 'hair colour',
+  babylights: 'balayage',
+  'hair cut': 'haircut',
+  bangs: 'fringe',
+  curls: 'curly hair',
+  'skin fade': 'fade',
+  blowout: 'blow dry',
+  'hair extensions': 'extensions',
+  'gel nails': 'gel',
+  'gel polish': 'gel',
+  shellac: 'gel',
+  'builder gel': 'biab',
+  'acrylic nails': 'acrylic',
+  'almond shape': 'almond',
+  'coffin shape': 'coffin',
+  'square shape': 'square',
+  'nail design': 'nail art',
+  'french manicure': 'french tips',
+  eyebrows: 'brows',
+  eyebrow: 'brows',
+  eyelashes: 'lashes',
+  eyelash: 'lashes',
+  'laminated brows': 'brow lamination',
+  'lash perm': 'lash lift',
+  wax: 'waxing',
+  skin: 'skincare',
+  'skin care': 'skincare',
+  'anti aging': 'anti-ageing',
+  'chemical peel': 'peel',
+  'make up': 'makeup',
+  'stone massage': 'hot stones',
+  stones: 'hot stones',
+  botox: 'anti-wrinkle',
+  'lip filler': 'lips',
+  'spa day': 'spa',
+  'beauty salon': 'salon',
+  barber: 'men',
+  mens: 'men',
+  wedding: 'bridal',
+  bride: 'bridal',
+  'before after': 'before and after',
+};
+
+/** Vocabulary for a category, general tags last. Without a category, every tag is allowed. */
+export function tagVocabulary(category?: TreatmentCategory): string[] {
+  const specific = category ? TAG_VOCABULARY[category] : Object.values(TAG_VOCABULARY).flat();
+  return [...new Set([...specific, ...GENERAL_TAGS])];
+}
+
+const singular = (key: string) => (key.endsWith('s') && !key.endsWith('ss') ? key.slice(0, -1) : key);
+
+/** Maps free text onto a vocabulary tag, or returns undefined if it isn't one. */
+export function normalizeTag(tag: string, vocabulary: string[]): string | undefined {
+  const key = normalizeTreatmentName(tag);
+  if (!key) return undefined;
+  const byKey = new Map(vocabulary.map(entry => [normalizeTreatmentName(entry), entry]));
+  const direct = byKey.get(key) ?? byKey.get(singular(key)) ?? byKey.get(`${key}s`);
+  if (direct) return direct;
+  const synonym = TAG_SYNONYMS[key] ?? TAG_SYNONYMS[singular(key)];
+  return synonym ? byKey.get(normalizeTreatmentName(synonym)) : undefined;
+}
+
+/** Normalised, de-duplicated tags in the model's order, capped at MAX_TAGS. */
+export function curateTags(tags: string[], category?: TreatmentCategory): string[] {
+  const vocabulary = tagVocabulary(category);
+  const curated = tags.map(tag => normalizeTag(tag, vocabulary)).filter((tag): tag is string => !!tag);
+  return [...new Set(curated)].slice(0, MAX_TAGS);
+}
+
+/**
+ * Tags for a slide moved to another category. Current tags stay if the new
+ * vocabulary has them, and the model's tags are mapped again, so ones the old
+ * vocabulary dropped can come through; those the partner removed stay removed.
+ */
+export function recurateTags(
+  current: string[],
+  modelTags: string[],
+  from: TreatmentCategory | undefined,
+  to: TreatmentCategory | undefined
+): string[] {
+  const previous = tagVocabulary(from);
+  const removed = new Set(curateTags(modelTags, from).filter(tag => !current.includes(tag)));
+  const kept = modelTags.filter(tag => {
+    const mapped = normalizeTag(tag, previous);
+    return !mapped || !removed.has(mapped);
+  });
+  return curateTags([...current, ...kept], to);
+}
@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+// Images imported from the Figma Make file, resolved by the Make build
+declare module 'figma:asset/*' {
+  const src: string;
+  export default src;
+}